@@ -0,0 +1,129 @@
+/*
+ * NeuroAssist service worker.
+ *
+ * - Precaches the app shell so the app opens without signal.
+ * - Serves hashed build assets (JS, CSS and the self-hosted fonts) cache-first.
+ * - Serves pages network-first, falling back to the last cached copy. Offline, a case page that
+ *   was never visited is served from the precached case page shell.
+ * - Caches the assets a page loaded before the worker took control, on request from the page.
+ * - Wakes open pages to replay the offline case outbox when Background Sync fires.
+ *
+ * Server action POSTs are never intercepted: offline submissions are handled in the page.
+ */
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `neuroassist-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `neuroassist-assets-${CACHE_VERSION}`;
+// Case pages are rendered in the browser from IndexedDB and read the case id from the address, so
+// one case page serves for every case. Keep in sync with src/app/cases/[id]/page.tsx.
+const CASE_PAGE_SHELL = '/cases/offline';
+const SHELL_URLS = ['/', '/cases', CASE_PAGE_SHELL, '/manifest.webmanifest', '/icons/icon.svg'];
+
+// Keep in sync with src/lib/offline/outbox.ts.
+const OUTBOX_SYNC_TAG = 'case-outbox';
+const OUTBOX_REPLAY_MESSAGE = 'replay-outbox';
+// Keep in sync with src/components/service-worker-registration.tsx.
+const CACHE_URLS_MESSAGE = 'cache-urls';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('neuroassist-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const isBuildAsset = (url) => url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/');
+
+/** The precached page to show for a page that is not in the cache. */
+const offlineFallback = (url) => (url.pathname.startsWith('/cases/') ? CASE_PAGE_SHELL : '/');
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) {
+    return cached;
+  }
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(request, { ignoreSearch: true })) ??
+      (await caches.match(offlineFallback(new URL(request.url))));
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (isBuildAsset(url)) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== CACHE_URLS_MESSAGE) {
+    return;
+  }
+  const urls = event.data.urls.filter((href) => {
+    const url = new URL(href);
+    return url.origin === self.location.origin && isBuildAsset(url);
+  });
+  event.waitUntil(caches.open(ASSET_CACHE).then((cache) => cache.addAll(urls)));
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) {
+    return;
+  }
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      if (clients.length === 0) {
+        // Replaying needs the page's IndexedDB store and server actions; fail so the
+        // browser retries the sync later, when a page may be open.
+        throw new Error('No open page to replay the outbox.');
+      }
+      clients.forEach((client) => client.postMessage({ type: OUTBOX_REPLAY_MESSAGE }));
+    })
+  );
+});
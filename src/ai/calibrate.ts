@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Fits confidence calibration parameters on a labelled dataset.
+ *
+ * Usage: npm run calibrate -- <cases.csv|cases.jsonl> --version <name> [--method platt|isotonic] [--path flow|siriraj]
+ *
+ * The cases are run exactly as by `npm run validate`, and the fitted parameters are written to
+ * src/lib/calibration/versions/<name>.json. Register the file in CALIBRATIONS and select it with
+ * NEXT_PUBLIC_CALIBRATION_VERSION to put it into use. Fit on cases from the same model and prompt the
+ * calibration will be used with, and validate it on cases it was not fitted on.
+ */
+
+import {config} from 'dotenv';
+config();
+
+import {readFileSync, writeFileSync} from 'fs';
+import {join} from 'path';
+import {parseArgs} from 'util';
+import {calibrationSchema, calibrateConfidence, type Calibration} from '@/lib/calibration';
+import {fitIsotonic, fitPlatt, type CalibrationSample} from '@/lib/calibration/fit';
+import {datasetFormatFromPath, parseDataset} from '@/lib/validation/dataset';
+import {computeValidationReport} from '@/lib/validation/metrics';
+import {runValidation, VALIDATION_PATHS, type ValidationPath} from '@/lib/validation/run';
+
+const FITTERS = {platt: fitPlatt, isotonic: fitIsotonic};
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      version: {type: 'string'},
+      method: {type: 'string', default: 'platt'},
+      path: {type: 'string', default: 'flow'},
+    },
+  });
+
+  const [datasetPath] = positionals;
+  if (!datasetPath || !values.version) {
+    throw new Error('Usage: npm run calibrate -- <cases.csv|cases.jsonl> --version <name> [--method platt|isotonic]');
+  }
+  if (!(values.method! in FITTERS)) {
+    throw new Error(`Unknown method "${values.method}". Expected one of: ${Object.keys(FITTERS).join(', ')}.`);
+  }
+  if (!(values.path! in VALIDATION_PATHS)) {
+    throw new Error(`Unknown path "${values.path}". Expected one of: ${Object.keys(VALIDATION_PATHS).join(', ')}.`);
+  }
+  const method = values.method as keyof typeof FITTERS;
+  const path = values.path as ValidationPath;
+
+  const cases = parseDataset(readFileSync(datasetPath, 'utf8'), datasetFormatFromPath(datasetPath));
+  console.error(`Running ${cases.length} cases from ${datasetPath} using the ${path} path...`);
+  const {outcomes, failures} = await runValidation(cases, path, (completed, total) => {
+    process.stderr.write(`\r${completed}/${total}`);
+  });
+  process.stderr.write('\n');
+  if (failures.length > 0) {
+    console.error(`${failures.length} cases failed and were left out of the fit.`);
+  }
+
+  const samples: CalibrationSample[] = outcomes.map((outcome) => ({
+    rawConfidence: outcome.rawConfidence,
+    sirirajMargin: outcome.sirirajMargin,
+    correct: outcome.strokeType === outcome.label,
+  }));
+
+  const calibration: Calibration = calibrationSchema.parse({
+    version: values.version,
+    description: `${method} calibration of the ${path} path, fitted on ${datasetPath}.`,
+    fittedAt: new Date().toISOString(),
+    cases: samples.length,
+    parameters: FITTERS[method](samples),
+  });
+
+  const rawReport = computeValidationReport(outcomes.map((o) => ({...o, confidence: o.rawConfidence})));
+  const fittedReport = computeValidationReport(
+    outcomes.map((o) => ({...o, confidence: calibrateConfidence(o, calibration.parameters)}))
+  );
+  console.log(`Expected calibration error before: ${rawReport.calibration.expectedCalibrationError.toFixed(3)}`);
+  console.log(`Expected calibration error after:  ${fittedReport.calibration.expectedCalibrationError.toFixed(3)} (in-sample)`);
+
+  const outputPath = join('src', 'lib', 'calibration', 'versions', `${calibration.version}.json`);
+  writeFileSync(outputPath, JSON.stringify(calibration, null, 2) + '\n');
+  console.log(`Wrote ${outputPath}. Add it to CALIBRATIONS in src/lib/calibration/index.ts to use it.`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
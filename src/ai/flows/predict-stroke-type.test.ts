@@ -0,0 +1,144 @@
+import {mkdtempSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import type {PredictStrokeTypeInput} from '@/ai/flows/predict-stroke-type';
+import type {CannedResponse} from '@/ai/providers/mock';
+import {baseInput} from '@/test/fixtures';
+
+/** A comatose patient with an apoplectic onset, whose scores both point to hemorrhage. */
+const hemorrhagicInput: PredictStrokeTypeInput = {
+  ...baseInput,
+  levelOfConsciousness: 'Comatose',
+  vomiting: true,
+  headache: true,
+  lossOfConsciousnessAtOnset: true,
+  diastolicBloodPressure: 120,
+};
+
+/**
+ * Loads the flow against a fresh mock model configured through the environment,
+ * optionally answering with the given canned responses in turn.
+ */
+async function loadFlow({cannedResponses, failEvery}: {cannedResponses?: CannedResponse[]; failEvery?: number} = {}) {
+  vi.resetModules();
+  if (cannedResponses) {
+    const file = join(mkdtempSync(join(tmpdir(), 'mock-model-')), 'responses.json');
+    writeFileSync(file, JSON.stringify(cannedResponses));
+    vi.stubEnv('MOCK_MODEL_RESPONSES_FILE', file);
+  }
+  if (failEvery) {
+    vi.stubEnv('MOCK_MODEL_FAIL_EVERY', String(failEvery));
+  }
+  const {predictStrokeType} = await import('@/ai/flows/predict-stroke-type');
+  return predictStrokeType;
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('predictStrokeTypeFlow', () => {
+  it('diagnoses an ischemic stroke from the clinical scores and lets the rules decide eligibility', async () => {
+    const predictStrokeType = await loadFlow();
+    const output = await predictStrokeType(baseInput);
+
+    expect(output.strokeType).toBe('Ischemic');
+    expect(output.siriraj?.interpretation).toBe('Ischemic');
+    expect(output.guysHospital?.interpretation).toBe('Ischemic');
+    expect(output.clinicalScoresAgree).toBe(true);
+    expect(output.tenecteplaseEligible).toBe(true);
+    expect(output.eligibilityCriteria.every((criterion) => criterion.passed)).toBe(true);
+    expect(output.actionPlan.key).toBe('ischemicEligible');
+    expect(output.protocolId).toBe('default');
+    expect(output.warnings).toEqual([]);
+    expect(output.rawConfidence).toBe(0.9);
+    expect(output.confidence).toBeGreaterThan(0);
+    expect(output.confidence).toBeLessThanOrEqual(1);
+  });
+
+  it('makes a hemorrhagic stroke ineligible and selects the hemorrhagic plan', async () => {
+    const predictStrokeType = await loadFlow();
+    const output = await predictStrokeType(hemorrhagicInput);
+
+    expect(output.strokeType).toBe('Hemorrhagic');
+    expect(output.tenecteplaseEligible).toBe(false);
+    expect(output.eligibilityCriteria.find((criterion) => criterion.id === 'ischemic-diagnosis')?.passed).toBe(false);
+    expect(output.actionPlan.key).toBe('hemorrhagic');
+  });
+
+  it('overrides the model when it claims eligibility the rules do not allow', async () => {
+    const predictStrokeType = await loadFlow({cannedResponses: [{tenecteplaseEligible: true}]});
+    const output = await predictStrokeType({...baseInput, anticoagulantUse: true});
+
+    expect(output.tenecteplaseEligible).toBe(false);
+    expect(output.eligibilityCriteria.find((criterion) => criterion.id === 'anticoagulant-use')?.passed).toBe(false);
+  });
+
+  it('retries an answer that contradicts the clinical scores and records that it did', async () => {
+    const predictStrokeType = await loadFlow({cannedResponses: [{strokeType: 'Hemorrhagic'}, {}]});
+    const output = await predictStrokeType(baseInput);
+
+    expect(output.strokeType).toBe('Ischemic');
+    expect(output.warnings.map((warning) => warning.code)).toEqual(['model-retried']);
+    expect(output.warnings[0].message).toContain('contradicted the clinical findings');
+  });
+
+  it('overrides a contradicting answer that survives the retry', async () => {
+    const predictStrokeType = await loadFlow({cannedResponses: [{strokeType: 'Hemorrhagic', confidence: 0.95}]});
+    const output = await predictStrokeType(baseInput);
+
+    expect(output.strokeType).toBe('Ischemic');
+    expect(output.warnings.map((warning) => warning.code)).toEqual(['model-retried', 'stroke-type-overridden']);
+    // The model's confidence was in the other diagnosis, so the clinical scores' confidence replaces it.
+    expect(output.rawConfidence).toBe(0.85);
+  });
+
+  it('keeps the first answer, corrected, when the retry fails', async () => {
+    const predictStrokeType = await loadFlow({
+      cannedResponses: [{strokeType: 'Hemorrhagic', confidence: 0.95}, {error: 'request timed out'}],
+    });
+    const output = await predictStrokeType(baseInput);
+
+    expect(output.strokeType).toBe('Ischemic');
+    expect(output.rawConfidence).toBe(0.85);
+    expect(output.warnings.map((warning) => warning.code)).toEqual([
+      'model-retried',
+      'model-retry-failed',
+      'stroke-type-overridden',
+    ]);
+    expect(output.warnings[1].message).toContain('request timed out');
+  });
+
+  it('retries an answer that does not match the output schema', async () => {
+    const predictStrokeType = await loadFlow({cannedResponses: [{confidence: 5}, {}]});
+    const output = await predictStrokeType(baseInput);
+
+    expect(output.strokeType).toBe('Ischemic');
+    expect(output.warnings.map((warning) => warning.code)).toEqual(['model-retried']);
+    expect(output.warnings[0].message).toContain('could not be read');
+    expect(output.warnings[0].message).not.toContain('contradicted');
+  });
+
+  it('fails when neither answer can be used', async () => {
+    const predictStrokeType = await loadFlow({cannedResponses: [{confidence: 5}, {error: 'request timed out'}]});
+
+    await expect(predictStrokeType(baseInput)).rejects.toThrow(/request timed out/);
+  });
+
+  it('takes the stroke type from the model when a CT scan is provided', async () => {
+    const predictStrokeType = await loadFlow();
+    const output = await predictStrokeType({...baseInput, ctScanImage: 'data:image/png;base64,iVBORw0KGgo='});
+
+    // The mock cannot read images, so it answers Uncertain; the clinical scores are not used.
+    expect(output.strokeType).toBe('Uncertain');
+    expect(output.siriraj).toBeUndefined();
+    expect(output.tenecteplaseEligible).toBe(false);
+  });
+
+  it('fails when the model fails', async () => {
+    const predictStrokeType = await loadFlow({failEvery: 1});
+
+    await expect(predictStrokeType(baseInput)).rejects.toThrow(/simulated failure/);
+  });
+});
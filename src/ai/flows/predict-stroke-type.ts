@@ -9,8 +9,15 @@
  * - PredictStrokeTypeOutput - The return type for the predictStrokeType function.
  */
 
-import {ai} from '@/ai/genkit';
+import {ai, modelFor} from '@/ai/genkit';
 import {z} from 'zod';
+import {evaluateTenecteplaseEligibility} from '@/lib/eligibility';
+import {nihssSchema, nihssSeverity} from '@/lib/scores/nihss';
+import {RACE_LVO_THRESHOLD, raceSchema} from '@/lib/scores/race';
+import {actionPlanSchema} from '@/lib/actions';
+import {assessClinicalFindings, finalizePrediction} from '@/lib/assessment';
+import {UNREADABLE_ANSWER, enforceGuardrails, findDiscrepancies, type RetryOutcome} from '@/lib/guardrails';
+import {getActiveProtocol} from '@/lib/protocols';
 
 const PredictStrokeTypeInputSchema = z.object({
   ctScanImage: z
@@ -20,12 +27,21 @@ const PredictStrokeTypeInputSchema = z.object({
     ).optional(),
   timeSinceOnset: z
     .number()
-    .describe('Time in minutes since the onset of symptoms.'),
+    .optional()
+    .describe('Time in minutes since the patient was last known well, computed at submission. Absent when onset is unknown.'),
+  lastKnownWell: z
+    .string()
+    .datetime()
+    .optional()
+    .describe('ISO timestamp of when the patient was last known well. Absent when onset is unknown.'),
+  onsetUnknown: z.boolean().describe('Whether the onset time is unknown, e.g. a wake-up stroke.'),
   faceDroop: z.boolean().describe('Whether the patient has face droop.'),
   speechSlurred: z.boolean().describe('Whether the patient has slurred speech.'),
   armWeakness: z
     .enum(['Left', 'Right', 'Both', 'None'])
     .describe('Arm weakness (Left, Right, Both, or None).'),
+  nihss: nihssSchema.optional().describe('Individual NIH Stroke Scale item scores (if assessed).'),
+  race: raceSchema.describe('RACE large vessel occlusion screen item scores.'),
   systolicBloodPressure: z.number().optional().describe('Systolic blood pressure (if available).'),
   historyHypertension: z.boolean().describe('History of hypertension.'),
   historyDiabetes: z.boolean().describe('History of diabetes.'),
@@ -34,18 +50,125 @@ const PredictStrokeTypeInputSchema = z.object({
   vomiting: z.boolean().describe('Whether the patient has been vomiting.'),
   headache: z.boolean().describe('Whether the patient has a headache.'),
   diastolicBloodPressure: z.number().describe('Diastolic blood pressure.'),
+  anticoagulantUse: z.boolean().describe('Whether the patient is currently taking an anticoagulant.'),
+  recentSurgery: z.boolean().describe('Major surgery within the last 14 days.'),
+  priorIntracranialHemorrhage: z.boolean().describe('History of intracranial hemorrhage.'),
+  recentStrokeOrHeadTrauma: z.boolean().describe('Ischemic stroke or significant head trauma within the last 3 months.'),
+  plateletCount: z.number().optional().describe('Platelet count in x10^3/µL (if available).'),
+  bloodGlucose: z.number().optional().describe('Blood glucose in mg/dL (if available).'),
+  inr: z.number().optional().describe('International normalized ratio (if available).'),
+  lossOfConsciousnessAtOnset: z.boolean().describe('Whether the patient lost consciousness at onset.'),
+  neckStiffness: z.boolean().describe('Whether the patient has neck stiffness.'),
+  bilateralExtensorPlantars: z.boolean().describe('Whether both plantar responses are extensor.'),
+  historyAnginaOrClaudication: z.boolean().describe('History of angina or intermittent claudication.'),
+  previousStrokeOrTia: z.boolean().describe('History of a previous stroke or TIA.'),
+  heartDisease: z
+    .boolean()
+    .describe('Heart disease (valve murmur, cardiac failure, cardiomyopathy, atrial fibrillation, cardiomegaly or recent MI).'),
 });
 
 
 export type PredictStrokeTypeInput = z.infer<typeof PredictStrokeTypeInputSchema>;
 
-const PredictStrokeTypeOutputSchema = z.object({
+const ModelOutputSchema = z.object({
   strokeType: z
     .enum(['Ischemic', 'Hemorrhagic', 'Uncertain'])
     .describe('The predicted stroke type based on the CT scan and symptoms.'),
   confidence: z.number().min(0).max(1).describe('The confidence level of the prediction (0-1).'),
   tenecteplaseEligible: z.boolean().describe('Whether the patient is eligible for Tenecteplase treatment.'),
-  action: z.string().describe('The recommended action and justification.'),
+});
+
+const EligibilityCriterionSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  kind: z.enum(['inclusion', 'exclusion', 'relative']),
+  passed: z.boolean(),
+  detail: z.string(),
+});
+
+const SirirajResultSchema = z.object({
+  score: z.number(),
+  interpretation: z.enum(['Ischemic', 'Hemorrhagic', 'Uncertain']),
+  components: z.array(
+    z.object({
+      id: z.enum(['consciousness', 'vomiting', 'headache', 'diastolicBloodPressure', 'atheroma', 'constant']),
+      label: z.string(),
+      contribution: z.number(),
+    })
+  ),
+});
+
+const GuysHospitalResultSchema = z.object({
+  score: z.number(),
+  interpretation: z.enum(['Ischemic', 'Hemorrhagic', 'Uncertain']),
+  components: z.array(
+    z.object({
+      id: z.enum([
+        'apoplecticOnset',
+        'consciousness',
+        'plantars',
+        'diastolicBloodPressure',
+        'atheroma',
+        'hypertension',
+        'previousStrokeOrTia',
+        'heartDisease',
+        'constant',
+      ]),
+      label: z.string(),
+      contribution: z.number(),
+    })
+  ),
+});
+
+const GuardrailWarningSchema = z.object({
+  code: z.enum(['model-retried', 'model-retry-failed', 'stroke-type-overridden', 'ct-clinical-discordance']),
+  message: z.string(),
+});
+
+const PredictStrokeTypeOutputSchema = ModelOutputSchema.extend({
+  confidence: z
+    .number()
+    .min(0)
+    .max(1)
+    .describe('The calibrated probability (0-1) that the predicted stroke type is correct.'),
+  rawConfidence: z.number().min(0).max(1).describe('The confidence stated by the model, before calibration.'),
+  calibrationVersion: z.string().describe('The version of the calibration that produced the confidence.'),
+  actionPlan: actionPlanSchema.describe(
+    'The recommended action plan, selected by the rules from the stroke type and eligibility from the site protocol.'
+  ),
+  action: z.string().describe('The action plan as plain text.'),
+  protocolId: z
+    .string()
+    .describe('The id of the site protocol the eligibility, action plan and treatment targets followed.'),
+  warnings: z
+    .array(GuardrailWarningSchema)
+    .describe("Contradictions between the model's answer and the clinical findings, and how they were resolved."),
+  tenecteplaseEligible: z
+    .boolean()
+    .describe('Whether the patient is eligible for Tenecteplase treatment, as decided by the rules engine.'),
+  eligibilityCriteria: z
+    .array(EligibilityCriterionSchema)
+    .describe('Every eligibility criterion evaluated by the rules engine, with its pass/fail result.'),
+  siriraj: SirirajResultSchema
+    .optional()
+    .describe('The Siriraj Stroke Score and its component contributions, when no CT scan was provided.'),
+  guysHospital: GuysHospitalResultSchema
+    .optional()
+    .describe("The Guy's Hospital (Allen) Stroke Score and its component contributions, when no CT scan was provided."),
+  clinicalScoresAgree: z
+    .boolean()
+    .optional()
+    .describe("Whether the Siriraj and Guy's Hospital interpretations agree, when no CT scan was provided."),
+  nihssTotal: z.number().optional().describe('The NIH Stroke Scale total, when an NIHSS assessment was recorded.'),
+  lastKnownWell: z.string().optional().describe('ISO timestamp of when the patient was last known well.'),
+  treatmentWindowEndsAt: z
+    .string()
+    .optional()
+    .describe('ISO timestamp at which the Tenecteplase treatment window closes, when onset is known.'),
+  raceScore: z.number().describe('The RACE large vessel occlusion screening score (0-9).'),
+  lvoSuspected: z
+    .boolean()
+    .describe(`Whether the RACE score (>= ${RACE_LVO_THRESHOLD}) suggests a large vessel occlusion.`),
 });
 
 export type PredictStrokeTypeOutput = z.infer<typeof PredictStrokeTypeOutputSchema>;
@@ -56,10 +179,11 @@ export async function predictStrokeType(input: PredictStrokeTypeInput): Promise<
 
 const prompt = ai.definePrompt({
   name: 'predictStrokeTypePrompt',
+  model: modelFor('predictStrokeType'),
   input: {schema: z.any()},
-  output: {schema: PredictStrokeTypeOutputSchema},
+  output: {schema: ModelOutputSchema},
   prompt: `You are an expert emergency physician specializing in stroke diagnosis.
-Your task is to determine the stroke type, Tenecteplase eligibility, and the recommended course of action based on the provided patient data.
+Your task is to determine the stroke type and Tenecteplase eligibility based on the provided patient data.
 
 **DIAGNOSTIC PROTOCOL: Follow these steps in order.**
 
@@ -73,12 +197,13 @@ Examine the CT scan image. Classify it as 'Ischemic', 'Hemorrhagic', or 'Uncerta
 - **Hemorrhagic strokes** will show as a bright, hyperdense area (blood).
 - If the image is unclear or shows no clear signs, classify as 'Uncertain'.
 
-**Method B: Siriraj Stroke Score (When No Image is Provided)**
-The Siriraj Stroke Score has been pre-calculated based on clinical data. Use this result to determine the diagnosis.
-- **Calculated Siriraj Score:** {{sirirajScore}}
-- **Interpretation:** {{sirirajInterpretation}}
+**Method B: Clinical Stroke Scores (When No Image is Provided)**
+The Siriraj and Guy's Hospital Stroke Scores have been pre-calculated based on clinical data. Use these results to determine the diagnosis.
+- **Calculated Siriraj Score:** {{sirirajScore}} ({{sirirajInterpretation}})
+- **Calculated Guy's Hospital Score:** {{guysHospitalScore}} ({{guysHospitalInterpretation}})
+- **Combined Interpretation:** {{clinicalInterpretation}}
 
-Your diagnosis for stroke type MUST match this interpretation.
+Your diagnosis for stroke type MUST match the combined interpretation. If the two scores disagree, the combined interpretation is 'Uncertain'.
 
 **Step 2: Confidence Score Calculation**
 Calculate a confidence score for your diagnosis between 0.0 and 1.0.
@@ -89,20 +214,29 @@ Calculate a confidence score for your diagnosis between 0.0 and 1.0.
 - **If using Siriraj Score:**
   - **High (0.85 - 0.95):** Score is strongly positive (> +2) or strongly negative (< -2).
   - **Medium (0.6 - 0.84):** Score is between 1-2 or -1 to -2.
-  - **Low (0.4 - 0.59):** Score is close to the -1 to +1 indeterminate range.
+  - **Low (0.4 - 0.59):** Score is close to the -1 to +1 indeterminate range, or the two scores disagree.
 
 **Step 3: Determine Tenecteplase Eligibility**
-A patient is **Tenecteplase eligible** ONLY IF:
-- Stroke type is confidently identified as **Ischemic**.
-- Time since onset is **less than 270 minutes**.
-A patient is **NOT Tenecteplase eligible** under any other circumstances (Hemorrhagic, Uncertain, or Ischemic outside the window).
-
+Eligibility has been pre-calculated by a rules engine. Do not re-derive it.
+- **If your diagnosis is Ischemic**, the patient is Tenecteplase eligible: {{eligibleIfIschemic}}
+- **If your diagnosis is Hemorrhagic or Uncertain**, the patient is NOT Tenecteplase eligible.
+
+{{#if discrepancies}}
+**CORRECTION REQUIRED:** Your previous answer contradicted the protocol above:
+{{#each discrepancies}}
+- {{this}}
+{{/each}}
+Answer again, following the protocol exactly.
+
+{{/if}}
 **Patient Information:**
 CT Scan: {{#if ctScanImage}}{{media url=ctScanImage}}{{else}}Not Provided{{/if}}
-Time since symptom onset: {{timeSinceOnset}} minutes
+Time since last known well: {{#if onsetUnknown}}Unknown (wake-up stroke or unwitnessed onset){{else}}{{timeSinceOnset}} minutes{{/if}}
 Face droop: {{faceDroop}}
 Slurred speech: {{speechSlurred}}
 Arm weakness: {{armWeakness}}
+NIHSS total: {{#if nihssSummary}}{{nihssSummary}}{{else}}Not assessed{{/if}}
+RACE score: {{raceScore}} ({{#if lvoSuspected}}large vessel occlusion suspected{{else}}large vessel occlusion not suspected{{/if}})
 Systolic Blood pressure: {{systolicBloodPressure}}
 History of hypertension: {{historyHypertension}}
 History of diabetes: {{historyDiabetes}}
@@ -114,52 +248,25 @@ Vomiting: {{vomiting}}
 Headache: {{headache}}
 Diastolic Blood Pressure: {{diastolicBloodPressure}}
 
-**Task & Action Formulation:**
-Based on all the information, provide a JSON response with the determined stroke type, confidence, Tenecteplase eligibility, and recommended action. Formulate the 'action' field as a multi-line string following these specific protocols:
-
-- **If Stroke Type is Hemorrhagic:** The action must be:
-"❌ HEMORRHAGIC STROKE DETECTED – TENECTEPLASE CONTRAINDICATED
-Urgent neurosurgical consultation and emergency transfer required.
-
-Immediate Actions:
-Alert Nearby Hospitals: Notify stroke centers of an incoming critical patient.
-Activate Satellite Comms (if available): If in a remote area with no internet, use satellite device for emergency communication.
-
-Stabilization Protocol:
-Stabilize Blood Pressure: Check BP immediately. If SBP > 180 mmHg, administer antihypertensives to lower it gradually.
-Elevate Head: Keep patient's head elevated to 30 degrees to reduce intracranial pressure.
-Minimize Stimulation: Reduce light, sound, and movement.
-Control Fever: Apply cool packs if the patient is feverish to reduce brain metabolism."
-
-- **If Stroke Type is Ischemic and Tenecteplase eligible:** The action must be:
-"✅ ISCHEMIC STROKE: TENECTEPLASE ELIGIBLE
-Initiate Tenecteplase administration immediately per protocol.
-
-Treatment Protocol:
-Administer Tenecteplase: Dose as a single IV bolus at 0.25 mg/kg (max 25 mg).
-Monitor Vitals: Check blood pressure and neurological status every 15 minutes for 2 hours after administration.
-Blood Pressure Control: Maintain BP < 180/105 mmHg.
-Prepare for Transfer: Arrange for immediate transfer to a comprehensive stroke center for ongoing care and potential endovascular therapy."
-
-- **If Stroke Type is Ischemic and NOT Tenecteplase eligible:** The action must be:
-"⚠️ ISCHEMIC STROKE: TENECTEPLASE NOT ELIGIBLE
-Patient is outside the treatment window or has contraindications.
-
-Supportive Care Plan:
-Initiate Antiplatelet Therapy: Administer Aspirin (e.g., 325 mg) once hemorrhage is definitively ruled out.
-Permissive Hypertension: Do not lower blood pressure unless it is extremely high (e.g., >220/120 mmHg).
-Monitor Vitals: Closely monitor neurological status, blood pressure, and glucose.
-Neurological Consultation: Seek urgent neurological consultation and arrange transfer to a stroke-ready hospital."
-
-- **If Stroke Type is Uncertain:** The action must be:
-"❓ DIAGNOSIS UNCERTAIN – DO NOT ADMINISTER TENECTEPLASE
-Further investigation is required before initiating stroke-specific treatment.
-
-Immediate Actions:
-Stabilize Patient: Provide supportive care, manage airway, breathing, and circulation.
-Urgent Consultation: Seek immediate neurological consultation.
-Advanced Imaging: Arrange for urgent advanced imaging (e.g., MRI/MRA or CT angiography) to clarify diagnosis.
-Monitor Closely: Continuously monitor vital signs and neurological status for any changes."
+**Guy's Hospital Score Data:**
+Loss of consciousness at onset: {{lossOfConsciousnessAtOnset}}
+Neck stiffness: {{neckStiffness}}
+Bilateral extensor plantars: {{bilateralExtensorPlantars}}
+History of angina or claudication: {{historyAnginaOrClaudication}}
+Previous stroke or TIA: {{previousStrokeOrTia}}
+Heart disease: {{heartDisease}}
+
+**Thrombolysis Contraindications:**
+Anticoagulant use: {{anticoagulantUse}}
+Major surgery in last 14 days: {{recentSurgery}}
+Prior intracranial hemorrhage: {{priorIntracranialHemorrhage}}
+Stroke or head trauma in last 3 months: {{recentStrokeOrHeadTrauma}}
+Platelet count (x10^3/µL): {{#if plateletCount}}{{plateletCount}}{{else}}Not recorded{{/if}}
+Blood glucose (mg/dL): {{#if bloodGlucose}}{{bloodGlucose}}{{else}}Not recorded{{/if}}
+INR: {{#if inr}}{{inr}}{{else}}Not recorded{{/if}}
+
+**Task:**
+Based on all the information, provide a JSON response with the determined stroke type, confidence, and Tenecteplase eligibility. The recommended action plan is selected by the system from your answer; do not write one.
 `,
 });
 
@@ -170,56 +277,56 @@ const predictStrokeTypeFlow = ai.defineFlow(
     outputSchema: PredictStrokeTypeOutputSchema,
   },
   async (input) => {
-    const {
-      ctScanImage,
-      levelOfConsciousness,
-      vomiting,
-      headache,
-      diastolicBloodPressure,
-      historyHypertension,
-      historyDiabetes,
-      historySmoking,
-    } = input;
-
-    let sirirajScore: number | undefined = undefined;
-    let sirirajInterpretation: string | undefined = undefined;
-
-    if (!ctScanImage) {
-      const locScore =
-        levelOfConsciousness === 'Conscious'
-          ? 0
-          : levelOfConsciousness === 'Drowsy'
-          ? 1
-          : 2;
-      const vomitingScore = vomiting ? 1 : 0;
-      const headacheScore = headache ? 1 : 0;
-      const atheromaScore =
-        historyHypertension || historyDiabetes || historySmoking ? 1 : 0;
-
-      sirirajScore =
-        2.5 * locScore +
-        2 * vomitingScore +
-        2 * headacheScore +
-        0.1 * diastolicBloodPressure -
-        3 * atheromaScore -
-        12;
-
-      if (sirirajScore > 1) {
-        sirirajInterpretation = 'Hemorrhagic';
-      } else if (sirirajScore < -1) {
-        sirirajInterpretation = 'Ischemic';
-      } else {
-        sirirajInterpretation = 'Uncertain';
-      }
-    }
+    const protocol = getActiveProtocol();
+    const assessment = assessClinicalFindings(input);
+    const {siriraj, guysHospital, agreement, nihssTotal, race} = assessment;
 
     const promptInput = {
       ...input,
-      sirirajScore: sirirajScore?.toFixed(2),
-      sirirajInterpretation,
+      raceScore: race.score,
+      lvoSuspected: race.lvoSuspected,
+      nihssSummary: nihssTotal !== undefined ? `${nihssTotal} (${nihssSeverity(nihssTotal)})` : undefined,
+      sirirajScore: siriraj?.score.toFixed(2),
+      sirirajInterpretation: siriraj?.interpretation,
+      guysHospitalScore: guysHospital?.score.toFixed(2),
+      guysHospitalInterpretation: guysHospital?.interpretation,
+      clinicalInterpretation: agreement?.interpretation,
+      eligibleIfIschemic: evaluateTenecteplaseEligibility(input, 'Ischemic', protocol).eligible,
     };
 
-    const {output} = await prompt(promptInput);
-    return output!;
+    // A missing or unreadable answer is retried like a contradicting one.
+    const first = await prompt(promptInput).then(
+      ({output}) => output,
+      () => null
+    );
+    let answer = first;
+
+    // Retry once, explaining what was wrong; whatever comes back is then corrected deterministically.
+    // If the retry fails, the first answer is kept, since the guardrails can still correct it.
+    const discrepancies = first ? findDiscrepancies(assessment, first) : [UNREADABLE_ANSWER];
+    const reason: RetryOutcome['reason'] = first ? 'contradiction' : 'unreadable-answer';
+    let failure: string | undefined;
+    if (discrepancies.length > 0) {
+      try {
+        const {output} = await prompt({...promptInput, discrepancies});
+        if (!output) {
+          throw new Error(UNREADABLE_ANSWER);
+        }
+        answer = output;
+      } catch (error) {
+        if (!first) {
+          throw error;
+        }
+        failure = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (!answer) {
+      throw new Error(`The model gave no usable answer. ${UNREADABLE_ANSWER}`);
+    }
+
+    const retry = discrepancies.length > 0 ? {reason, discrepancies, failure} : undefined;
+    const {prediction, warnings} = enforceGuardrails(input, assessment, answer, retry);
+    return finalizePrediction(input, assessment, prediction, {protocol, warnings});
   }
 );
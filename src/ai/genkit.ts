@@ -1,7 +1,12 @@
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {createModelPlugins, loadModelConfig, type FlowName} from '@/ai/providers/registry';
+
+const modelConfig = loadModelConfig();
 
 export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
+  plugins: createModelPlugins(modelConfig),
+  model: modelConfig.defaultModel,
 });
+
+/** The model a flow should use: its configured override, otherwise the default model. */
+export const modelFor = (flow: FlowName): string => modelConfig.flowModels[flow] ?? modelConfig.defaultModel;
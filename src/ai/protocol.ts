@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Validates a site's treatment protocol and adds it to the app.
+ *
+ * Usage: npm run protocol -- <protocol.json|protocol.yaml> [--check]
+ *
+ * The protocol defines the treatment window, thrombolytic dose, blood pressure targets, lab limits and
+ * action plans (see `protocolSchema` in src/lib/protocols). A valid protocol is written to
+ * src/lib/protocols/sites/<id>.json; register it in PROTOCOLS and select it with NEXT_PUBLIC_PROTOCOL
+ * to put it into use. With --check the protocol is only validated.
+ */
+
+import {readFileSync, writeFileSync} from 'fs';
+import {join} from 'path';
+import {parseArgs} from 'util';
+import {PROTOCOLS} from '@/lib/protocols';
+import {parseProtocol, protocolFormatFromPath} from '@/lib/protocols/parse';
+
+function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      check: {type: 'boolean', default: false},
+    },
+  });
+
+  const [protocolPath] = positionals;
+  if (!protocolPath) {
+    throw new Error('Usage: npm run protocol -- <protocol.json|protocol.yaml> [--check]');
+  }
+
+  const protocol = parseProtocol(readFileSync(protocolPath, 'utf8'), protocolFormatFromPath(protocolPath));
+  console.log(`${protocol.name} ${protocol.version} (${protocol.id}) is valid.`);
+  if (values.check) {
+    return;
+  }
+
+  const outputPath = join('src', 'lib', 'protocols', 'sites', `${protocol.id}.json`);
+  writeFileSync(outputPath, JSON.stringify(protocol, null, 2) + '\n');
+  console.log(
+    protocol.id in PROTOCOLS
+      ? `Updated ${outputPath}.`
+      : `Wrote ${outputPath}. Add it to PROTOCOLS in src/lib/protocols/index.ts to use it.`
+  );
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
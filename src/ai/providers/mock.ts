@@ -0,0 +1,116 @@
+import {readFileSync} from 'fs';
+import type {GenerateRequest} from 'genkit/model';
+import {genkitPlugin, type GenkitPlugin} from 'genkit/plugin';
+import type {StrokeType} from '@/lib/eligibility';
+
+/** What the mock returns in place of a model: the fields of the prompt's output schema. */
+export type MockModelResponse = {
+  strokeType: StrokeType;
+  confidence: number;
+  tenecteplaseEligible: boolean;
+};
+
+/** A canned response, or an error the mock should throw instead of answering. */
+export type CannedResponse = Partial<MockModelResponse> | {error: string};
+
+export type MockModelOptions = {
+  /** Delay before every response, to exercise loading states. */
+  latencyMs?: number;
+  /** Fail every nth request (1 fails all of them), to exercise error handling. */
+  failEvery?: number;
+  /** Responses returned in turn instead of the rule-derived one. Partial responses are merged over it. */
+  cannedResponses?: CannedResponse[];
+};
+
+/**
+ * Reads the mock options from the environment:
+ *
+ * - MOCK_MODEL_LATENCY_MS - Delay before every response.
+ * - MOCK_MODEL_FAIL_EVERY - Fail every nth request.
+ * - MOCK_MODEL_RESPONSES_FILE - A JSON array of canned responses.
+ */
+export function mockModelOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): MockModelOptions {
+  return {
+    latencyMs: Number(env.MOCK_MODEL_LATENCY_MS) || undefined,
+    failEvery: Number(env.MOCK_MODEL_FAIL_EVERY) || undefined,
+    cannedResponses: env.MOCK_MODEL_RESPONSES_FILE
+      ? JSON.parse(readFileSync(env.MOCK_MODEL_RESPONSES_FILE, 'utf8'))
+      : undefined,
+  };
+}
+
+const promptText = (request: GenerateRequest) =>
+  request.messages.flatMap((message) => message.content.map((part) => part.text ?? '')).join('\n');
+
+const hasImage = (request: GenerateRequest) =>
+  request.messages.some((message) => message.content.some((part) => part.media));
+
+/** Confidence bands from the prompt's Siriraj confidence table. */
+const sirirajConfidence = (score: number) => {
+  const magnitude = Math.abs(score);
+  return magnitude > 2 ? 0.9 : magnitude >= 1 ? 0.75 : 0.5;
+};
+
+/**
+ * Answers the way a model following the stroke prompt should, using the scores and eligibility
+ * the flow has already rendered into it. The mock cannot read CT images, so it calls them Uncertain.
+ */
+export function deriveMockResponse(request: GenerateRequest): MockModelResponse {
+  const text = promptText(request);
+  const interpretation = text.match(/Combined Interpretation:\*\* (Ischemic|Hemorrhagic|Uncertain)/)?.[1];
+  const sirirajScore = Number(text.match(/Calculated Siriraj Score:\*\* (-?[\d.]+)/)?.[1]);
+  const eligibleIfIschemic = /Tenecteplase eligible: true/.test(text);
+
+  const strokeType: StrokeType = hasImage(request) ? 'Uncertain' : ((interpretation as StrokeType) ?? 'Uncertain');
+  const tenecteplaseEligible = strokeType === 'Ischemic' && eligibleIfIschemic;
+
+  return {
+    strokeType,
+    confidence: strokeType === 'Uncertain' || Number.isNaN(sirirajScore) ? 0.5 : sirirajConfidence(sirirajScore),
+    tenecteplaseEligible,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A deterministic stand-in for a real model, selected with MODEL=mock/<any name>. It lets the
+ * whole flow, the form and the results screen run without an API key or network.
+ */
+export function mockModel(models: string[], options: MockModelOptions = {}): GenkitPlugin {
+  return genkitPlugin('mock', async (ai) => {
+    for (const model of models) {
+      let requestCount = 0;
+
+      ai.defineModel(
+        {
+          name: `mock/${model}`,
+          label: `Mock - ${model}`,
+          supports: {multiturn: true, media: true, systemRole: true, output: ['text', 'json']},
+        },
+        async (request) => {
+          const requestNumber = ++requestCount;
+          if (options.latencyMs) {
+            await sleep(options.latencyMs);
+          }
+          if (options.failEvery && requestNumber % options.failEvery === 0) {
+            throw new Error(`mock/${model}: simulated failure on request ${requestNumber}.`);
+          }
+
+          const canned = options.cannedResponses?.length
+            ? options.cannedResponses[(requestNumber - 1) % options.cannedResponses.length]
+            : {};
+          if ('error' in canned) {
+            throw new Error(`mock/${model}: ${canned.error}`);
+          }
+
+          const response = {...deriveMockResponse(request), ...canned};
+          return {
+            message: {role: 'model', content: [{text: JSON.stringify(response)}]},
+            finishReason: 'stop',
+          };
+        }
+      );
+    }
+  });
+}
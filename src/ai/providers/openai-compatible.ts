@@ -0,0 +1,102 @@
+import type {GenerateRequest, GenerateResponseData, MessageData, Part} from 'genkit/model';
+import {genkitPlugin, type GenkitPlugin} from 'genkit/plugin';
+
+export type OpenAICompatibleOptions = {
+  /** Plugin name, used as the model name prefix, e.g. `ollama` for `ollama/llama3.2-vision`. */
+  name: string;
+  /** Base URL of the API, up to and including the version segment, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  apiKey?: string;
+  /** Model names (without the plugin prefix) to register. */
+  models: string[];
+};
+
+type ChatContentPart = {type: 'text'; text: string} | {type: 'image_url'; image_url: {url: string}};
+type ChatContent = string | ChatContentPart[];
+
+type ChatCompletion = {
+  choices: Array<{message: {content: string | null}; finish_reason: string | null}>;
+  usage?: {prompt_tokens?: number; completion_tokens?: number; total_tokens?: number};
+};
+
+const ROLES: Record<MessageData['role'], string> = {
+  system: 'system',
+  user: 'user',
+  model: 'assistant',
+  tool: 'tool',
+};
+
+const FINISH_REASONS: Record<string, NonNullable<GenerateResponseData['finishReason']>> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'blocked',
+};
+
+const toChatContent = (parts: Part[]): ChatContent => {
+  if (parts.every((part) => part.text !== undefined)) {
+    return parts.map((part) => part.text).join('');
+  }
+  return parts.flatMap<ChatContentPart>((part) => {
+    if (part.media) {
+      return [{type: 'image_url', image_url: {url: part.media.url}}];
+    }
+    return part.text !== undefined ? [{type: 'text', text: part.text}] : [];
+  });
+};
+
+const toChatRequest = (model: string, request: GenerateRequest) => ({
+  model,
+  messages: request.messages.map((message) => ({
+    role: ROLES[message.role],
+    content: toChatContent(message.content),
+  })),
+  temperature: request.config?.temperature,
+  max_tokens: request.config?.maxOutputTokens,
+  top_p: request.config?.topP,
+  stop: request.config?.stopSequences,
+  // The schema itself is added to the prompt by Genkit; this only asks the server for valid JSON.
+  response_format: request.output?.format === 'json' ? {type: 'json_object'} : undefined,
+});
+
+/**
+ * A Genkit plugin for any server speaking the OpenAI chat completions API: OpenAI itself,
+ * Azure or vLLM gateways, and local Ollama or llama.cpp servers.
+ */
+export function openAICompatible({name, baseUrl, apiKey, models}: OpenAICompatibleOptions): GenkitPlugin {
+  return genkitPlugin(name, async (ai) => {
+    for (const model of models) {
+      ai.defineModel(
+        {
+          name: `${name}/${model}`,
+          label: `${name} - ${model}`,
+          supports: {multiturn: true, media: true, systemRole: true, output: ['text', 'json']},
+        },
+        async (request) => {
+          const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(apiKey ? {Authorization: `Bearer ${apiKey}`} : {}),
+            },
+            body: JSON.stringify(toChatRequest(model, request)),
+          });
+          if (!response.ok) {
+            throw new Error(`${name}/${model} request failed (${response.status}): ${await response.text()}`);
+          }
+
+          const completion: ChatCompletion = await response.json();
+          const [choice] = completion.choices;
+          return {
+            message: {role: 'model', content: [{text: choice?.message.content ?? ''}]},
+            finishReason: FINISH_REASONS[choice?.finish_reason ?? ''] ?? 'other',
+            usage: {
+              inputTokens: completion.usage?.prompt_tokens,
+              outputTokens: completion.usage?.completion_tokens,
+              totalTokens: completion.usage?.total_tokens,
+            },
+          };
+        }
+      );
+    }
+  });
+}
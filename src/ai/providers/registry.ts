@@ -0,0 +1,136 @@
+/**
+ * @fileOverview Selects the model providers the Genkit `ai` instance is built with.
+ *
+ * Configuration comes from a JSON file named by MODEL_CONFIG_FILE, overridden by environment variables:
+ *
+ * - MODEL - The default model, e.g. `googleai/gemini-2.0-flash`, `ollama/llama3.2-vision` or `mock/rules`.
+ * - MODEL_<FLOW> - A per-flow override, e.g. MODEL_PREDICT_STROKE_TYPE.
+ * - OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY, OLLAMA_BASE_URL, LLAMACPP_BASE_URL - Provider settings.
+ *   The Gemini API key is read by the Google AI plugin from GEMINI_API_KEY or GOOGLE_API_KEY.
+ *
+ * Only the providers referenced by a configured model are loaded, so a deployment pointed at a
+ * local server never initialises the Google AI plugin.
+ */
+
+import {readFileSync} from 'fs';
+import {z} from 'zod';
+import {googleAI} from '@genkit-ai/googleai';
+import type {GenkitPlugin} from 'genkit/plugin';
+import {openAICompatible} from '@/ai/providers/openai-compatible';
+import {mockModel, mockModelOptionsFromEnv} from '@/ai/providers/mock';
+
+export const PROVIDER_IDS = ['googleai', 'openai-compatible', 'ollama', 'llamacpp', 'mock'] as const;
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+/** Every flow whose model can be overridden. */
+export const FLOW_NAMES = ['predictStrokeType'] as const;
+export type FlowName = (typeof FLOW_NAMES)[number];
+
+export const DEFAULT_MODEL = 'googleai/gemini-2.0-flash';
+
+const ProviderSettingsSchema = z.object({
+  baseUrl: z.string().url().optional(),
+  apiKey: z.string().optional(),
+});
+type ProviderSettings = z.infer<typeof ProviderSettingsSchema>;
+
+export const ModelConfigSchema = z.object({
+  defaultModel: z.string().default(DEFAULT_MODEL),
+  flowModels: z.record(z.enum(FLOW_NAMES), z.string()).default({}),
+  providers: z.record(z.enum(PROVIDER_IDS), ProviderSettingsSchema).default({}),
+});
+export type ModelConfig = z.infer<typeof ModelConfigSchema>;
+
+type ModelProvider = {
+  label: string;
+  defaultBaseUrl?: string;
+  createPlugin(settings: ProviderSettings, models: string[]): GenkitPlugin;
+};
+
+const localServer = (name: ProviderId, label: string, defaultBaseUrl: string): ModelProvider => ({
+  label,
+  defaultBaseUrl,
+  createPlugin: (settings, models) =>
+    openAICompatible({name, baseUrl: settings.baseUrl ?? defaultBaseUrl, apiKey: settings.apiKey, models}),
+});
+
+export const MODEL_PROVIDERS: Record<ProviderId, ModelProvider> = {
+  googleai: {
+    label: 'Google AI (Gemini)',
+    createPlugin: (settings) => googleAI({apiKey: settings.apiKey}),
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible endpoint',
+    createPlugin: (settings, models) => {
+      if (!settings.baseUrl) {
+        throw new Error('The openai-compatible provider requires a base URL (OPENAI_COMPATIBLE_BASE_URL).');
+      }
+      return openAICompatible({name: 'openai-compatible', baseUrl: settings.baseUrl, apiKey: settings.apiKey, models});
+    },
+  },
+  ollama: localServer('ollama', 'Ollama', 'http://localhost:11434/v1'),
+  llamacpp: localServer('llamacpp', 'llama.cpp server', 'http://localhost:8080/v1'),
+  mock: {
+    label: 'Mock model (rule-derived responses)',
+    createPlugin: (_settings, models) => mockModel(models, mockModelOptionsFromEnv()),
+  },
+};
+
+const isProviderId = (value: string): value is ProviderId => (PROVIDER_IDS as readonly string[]).includes(value);
+
+/** Splits `provider/model` into its parts. Model names may themselves contain slashes. */
+export function parseModelName(model: string): {provider: ProviderId; name: string} {
+  const separator = model.indexOf('/');
+  const provider = model.slice(0, separator);
+  if (separator < 0 || !isProviderId(provider)) {
+    throw new Error(`Unknown model provider in "${model}". Expected one of: ${PROVIDER_IDS.join(', ')}.`);
+  }
+  return {provider, name: model.slice(separator + 1)};
+}
+
+/** `predictStrokeType` -> `MODEL_PREDICT_STROKE_TYPE` */
+const flowEnvVar = (flow: FlowName) => `MODEL_${flow.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+
+const PROVIDER_ENV: Partial<Record<ProviderId, {baseUrl?: string; apiKey?: string}>> = {
+  'openai-compatible': {baseUrl: 'OPENAI_COMPATIBLE_BASE_URL', apiKey: 'OPENAI_COMPATIBLE_API_KEY'},
+  ollama: {baseUrl: 'OLLAMA_BASE_URL'},
+  llamacpp: {baseUrl: 'LLAMACPP_BASE_URL'},
+};
+
+export function loadModelConfig(env: NodeJS.ProcessEnv = process.env): ModelConfig {
+  const file = env.MODEL_CONFIG_FILE ? JSON.parse(readFileSync(env.MODEL_CONFIG_FILE, 'utf8')) : {};
+  const config = ModelConfigSchema.parse(file);
+
+  for (const flow of FLOW_NAMES) {
+    const override = env[flowEnvVar(flow)];
+    if (override) {
+      config.flowModels[flow] = override;
+    }
+  }
+
+  for (const [provider, vars] of Object.entries(PROVIDER_ENV)) {
+    const settings = {...config.providers[provider as ProviderId]};
+    if (vars.baseUrl && env[vars.baseUrl]) {
+      settings.baseUrl = env[vars.baseUrl];
+    }
+    if (vars.apiKey && env[vars.apiKey]) {
+      settings.apiKey = env[vars.apiKey];
+    }
+    config.providers[provider as ProviderId] = settings;
+  }
+
+  return {...config, defaultModel: env.MODEL || config.defaultModel};
+}
+
+/** Creates one plugin per provider referenced by the configured models, registering those models. */
+export function createModelPlugins(config: ModelConfig): GenkitPlugin[] {
+  const modelsByProvider = new Map<ProviderId, Set<string>>();
+  for (const model of [config.defaultModel, ...Object.values(config.flowModels)]) {
+    const {provider, name} = parseModelName(model);
+    modelsByProvider.set(provider, (modelsByProvider.get(provider) ?? new Set()).add(name));
+  }
+
+  return [...modelsByProvider].map(([provider, models]) =>
+    MODEL_PROVIDERS[provider].createPlugin(config.providers[provider] ?? {}, [...models])
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * @fileOverview Measures prediction accuracy against a labelled dataset.
+ *
+ * Usage: npm run validate -- <cases.csv|cases.jsonl> [--path flow|siriraj] [--json report.json] [--outcomes outcomes.jsonl]
+ *
+ * Each case holds the `PredictStrokeTypeInput` fields, a ground-truth `label` (Ischemic or Hemorrhagic)
+ * and optionally `id` and `eligible`. The model used by the flow is configured as for the app (see
+ * src/ai/providers/registry.ts), so prompts and models can be compared on the same dataset.
+ */
+
+import {config} from 'dotenv';
+config();
+
+import {readFileSync, writeFileSync} from 'fs';
+import {parseArgs} from 'util';
+import {datasetFormatFromPath, parseDataset} from '@/lib/validation/dataset';
+import {computeValidationReport, formatValidationReport} from '@/lib/validation/metrics';
+import {runValidation, VALIDATION_PATHS, type ValidationPath} from '@/lib/validation/run';
+
+async function main() {
+  const {values, positionals} = parseArgs({
+    allowPositionals: true,
+    options: {
+      path: {type: 'string', default: 'flow'},
+      json: {type: 'string'},
+      outcomes: {type: 'string'},
+    },
+  });
+
+  const [datasetPath] = positionals;
+  if (!datasetPath) {
+    throw new Error('Usage: npm run validate -- <cases.csv|cases.jsonl> [--path flow|siriraj] [--json report.json]');
+  }
+  if (!(values.path! in VALIDATION_PATHS)) {
+    throw new Error(`Unknown path "${values.path}". Expected one of: ${Object.keys(VALIDATION_PATHS).join(', ')}.`);
+  }
+  const path = values.path as ValidationPath;
+
+  const cases = parseDataset(readFileSync(datasetPath, 'utf8'), datasetFormatFromPath(datasetPath));
+  console.error(`Validating ${cases.length} cases from ${datasetPath} using the ${path} path...`);
+
+  const {outcomes, failures} = await runValidation(cases, path, (completed, total) => {
+    process.stderr.write(`\r${completed}/${total}`);
+  });
+  process.stderr.write('\n');
+
+  for (const failure of failures) {
+    console.error(`Case ${failure.id} failed: ${failure.error}`);
+  }
+
+  const report = computeValidationReport(outcomes);
+  console.log(formatValidationReport(report));
+  if (failures.length > 0) {
+    console.log(`\n${failures.length} of ${cases.length} cases failed and were not scored.`);
+  }
+
+  if (values.json) {
+    writeFileSync(values.json, JSON.stringify({dataset: datasetPath, path, ...report, failures}, null, 2));
+  }
+  if (values.outcomes) {
+    writeFileSync(values.outcomes, outcomes.map((outcome) => JSON.stringify(outcome)).join('\n') + '\n');
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+
+import { AppShell } from '@/components/app-shell';
+import { ResultsDisplay } from '@/components/results-display';
+import { useToast } from '@/hooks/use-toast';
+import { getCaseStore } from '@/lib/cases';
+import { onCaseSynced } from '@/lib/offline/sync';
+import type { Milestones } from '@/lib/milestones';
+import type { ThrombolyticDose } from '@/lib/dosing';
+import type { BloodPressureReading } from '@/lib/blood-pressure';
+import type { Observation } from '@/lib/observations';
+import type { ReferralDetails } from '@/lib/referral';
+import type { CaseRecord } from '@/types';
+
+export default function CaseDetailPage() {
+  // Offline, the service worker serves one cached case page for every case (see public/sw.js), and
+  // its route params name the case it was cached for. The address always names the case asked for.
+  const id = decodeURIComponent(usePathname().split('/').at(-1) ?? '');
+  const router = useRouter();
+  const [record, setRecord] = useState<CaseRecord | null | undefined>(undefined);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCaseStore()
+      .get(id)
+      .then((found) => setRecord(found ?? null))
+      .catch((error) => {
+        console.error(error);
+        setRecord(null);
+      });
+  }, [id]);
+
+  useEffect(
+    () => onCaseSynced((synced) => setRecord((current) => (current?.id === synced.id ? synced : current))),
+    []
+  );
+
+  const saveChanges = (changes: Partial<CaseRecord>, failure: string) => {
+    if (!record) {
+      return;
+    }
+    const updated = { ...record, ...changes, updatedAt: new Date().toISOString() };
+    setRecord(updated);
+    getCaseStore()
+      .save(updated)
+      .catch((error) => {
+        console.error(error);
+        toast({ variant: 'destructive', title: 'Case Not Saved', description: failure });
+      });
+  };
+
+  const handleMilestonesChange = (milestones: Milestones) =>
+    saveChanges({ milestones }, 'Milestones could not be saved.');
+
+  const handleDosingChange = (dosing: ThrombolyticDose) =>
+    saveChanges({ dosing }, 'The thrombolytic dose could not be saved.');
+
+  const handleBloodPressureReadingsChange = (bloodPressureReadings: BloodPressureReading[]) =>
+    saveChanges({ bloodPressureReadings }, 'The blood pressure readings could not be saved.');
+
+  const handleObservationsChange = (observations: Observation[]) =>
+    saveChanges({ observations }, 'The observations could not be saved.');
+
+  const handleReferralChange = (referral: ReferralDetails) =>
+    saveChanges({ referral }, 'The referral details could not be saved.');
+
+  return (
+    <AppShell>
+      {record === undefined ? (
+        <div className="flex justify-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        </div>
+      ) : record === null ? (
+        <p className="text-center text-muted-foreground">This case could not be found on this device.</p>
+      ) : (
+        <ResultsDisplay
+          result={{
+            ...record.result,
+            uploadedImage: record.image,
+            milestones: record.milestones,
+            dosing: record.dosing,
+            bloodPressureReadings: record.bloodPressureReadings,
+            observations: record.observations,
+            input: record.input,
+            assessedAt: record.createdAt,
+            referral: record.referral,
+          }}
+          onMilestonesChange={handleMilestonesChange}
+          onDosingChange={handleDosingChange}
+          onBloodPressureReadingsChange={handleBloodPressureReadingsChange}
+          onObservationsChange={handleObservationsChange}
+          onReferralChange={handleReferralChange}
+          onReset={() => router.push('/')}
+        />
+      )}
+    </AppShell>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ChevronRight, FolderClock, Loader2, Search } from 'lucide-react';
+
+import { AppShell } from '@/components/app-shell';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_CASE_FILTERS, filterCases, getCaseStore, type CaseFilters } from '@/lib/cases';
+import { onCaseSynced } from '@/lib/offline/sync';
+import type { CaseRecord } from '@/types';
+
+export default function CasesPage() {
+  const [cases, setCases] = useState<CaseRecord[] | null>(null);
+  const [filters, setFilters] = useState<CaseFilters>(DEFAULT_CASE_FILTERS);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getCaseStore()
+      .list()
+      .then(setCases)
+      .catch((error) => {
+        console.error(error);
+        setCases([]);
+        toast({
+          variant: 'destructive',
+          title: 'Could Not Load Cases',
+          description: 'Case history is unavailable in this browser.',
+        });
+      });
+  }, [toast]);
+
+  useEffect(
+    () =>
+      onCaseSynced((synced) =>
+        setCases((current) => current?.map((record) => (record.id === synced.id ? synced : record)) ?? current)
+      ),
+    []
+  );
+
+  const visibleCases = useMemo(() => (cases ? filterCases(cases, filters) : []), [cases, filters]);
+
+  return (
+    <AppShell>
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-2xl font-bold">
+            <FolderClock className="h-6 w-6 text-primary" />
+            Case History
+          </CardTitle>
+          <CardDescription>Past diagnoses saved on this device.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search cases..."
+                className="pl-9"
+                value={filters.query}
+                onChange={(e) => setFilters({ ...filters, query: e.target.value })}
+              />
+            </div>
+            <Select
+              value={filters.strokeType}
+              onValueChange={(value) => setFilters({ ...filters, strokeType: value as CaseFilters['strokeType'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">All stroke types</SelectItem>
+                <SelectItem value="Ischemic">Ischemic</SelectItem>
+                <SelectItem value="Hemorrhagic">Hemorrhagic</SelectItem>
+                <SelectItem value="Uncertain">Uncertain</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filters.eligibility}
+              onValueChange={(value) => setFilters({ ...filters, eligibility: value as CaseFilters['eligibility'] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">Any eligibility</SelectItem>
+                <SelectItem value="Eligible">Tenecteplase eligible</SelectItem>
+                <SelectItem value="Not eligible">Not eligible</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {cases === null ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : visibleCases.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              {cases.length === 0 ? 'No cases have been saved yet.' : 'No cases match the current filters.'}
+            </p>
+          ) : (
+            <ul className="divide-y rounded-lg border">
+              {visibleCases.map((record) => (
+                <li key={record.id}>
+                  <Link href={`/cases/${record.id}`} className="flex items-center justify-between gap-4 p-4 hover:bg-muted/50">
+                    <div className="space-y-1">
+                      <p className="font-medium">{new Date(record.createdAt).toLocaleString()}</p>
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant={record.result.strokeType === 'Hemorrhagic' ? 'destructive' : 'secondary'}>
+                          {record.result.strokeType}
+                        </Badge>
+                        {record.result.tenecteplaseEligible ? (
+                          <Badge className="bg-green-600 hover:bg-green-700 text-white">Tenecteplase Eligible</Badge>
+                        ) : (
+                          <Badge variant="outline">Not Eligible</Badge>
+                        )}
+                        <Badge variant="outline">{Math.round(record.result.confidence * 100)}% confidence</Badge>
+                        {record.pendingSync && <Badge variant="destructive">Offline, awaiting sync</Badge>}
+                      </div>
+                    </div>
+                    <ChevronRight className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </AppShell>
+  );
+}
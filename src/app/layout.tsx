@@ -1,10 +1,33 @@
-import type {Metadata} from 'next';
+import type {Metadata, Viewport} from 'next';
+import { Inter, Source_Code_Pro } from 'next/font/google';
 import './globals.css';
 import { Toaster } from "@/components/ui/toaster"
+import { ServiceWorkerRegistration } from '@/components/service-worker-registration';
+
+// next/font downloads the fonts at build time and serves them from the app itself,
+// so no request to Google Fonts is made at runtime.
+const inter = Inter({
+  subsets: ['latin'],
+  weight: ['400', '500', '600', '700'],
+  variable: '--font-inter',
+});
+
+const sourceCodePro = Source_Code_Pro({
+  subsets: ['latin'],
+  variable: '--font-source-code-pro',
+});
 
 export const metadata: Metadata = {
   title: 'NeuroAssist',
   description: 'AI-powered stroke prediction and action recommendation.',
+  appleWebApp: {
+    capable: true,
+    title: 'NeuroAssist',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#3f51b5',
 };
 
 export default function RootLayout({
@@ -13,15 +36,11 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
-      <head>
-        <link rel="preconnect" href="https://fonts.googleapis.com" />
-        <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
-        <link href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&family=Source+Code+Pro&display=swap" rel="stylesheet" />
-      </head>
+    <html lang="en" className={`${inter.variable} ${sourceCodePro.variable}`}>
       <body className="font-body antialiased">
         {children}
         <Toaster />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
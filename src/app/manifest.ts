@@ -0,0 +1,27 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'NeuroAssist',
+    short_name: 'NeuroAssist',
+    description: 'AI-powered stroke prediction and action recommendation.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f0f2f5',
+    theme_color: '#3f51b5',
+    icons: [
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any',
+      },
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'maskable',
+      },
+    ],
+  };
+}
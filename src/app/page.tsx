@@ -1,13 +1,23 @@
 'use client';
 
-import { useState } from 'react';
-import { BrainCircuit, Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
 
+import { AppShell } from '@/components/app-shell';
 import { SymptomForm } from '@/components/symptom-form';
 import { ResultsDisplay } from '@/components/results-display';
 import { useToast } from '@/hooks/use-toast';
-import { predictStrokeType } from '@/ai/flows/predict-stroke-type';
-import type { SymptomFormValues, PredictionResult } from '@/types';
+import type { CaseRecord, SymptomFormValues } from '@/types';
+import { toPredictionInput } from '@/lib/prediction-input';
+import { predictWithOfflineFallback } from '@/lib/offline/predict';
+import { requestOutboxSync } from '@/lib/offline/outbox';
+import { onCaseSynced } from '@/lib/offline/sync';
+import type { Milestones } from '@/lib/milestones';
+import type { ThrombolyticDose } from '@/lib/dosing';
+import type { BloodPressureReading } from '@/lib/blood-pressure';
+import type { Observation } from '@/lib/observations';
+import type { ReferralDetails } from '@/lib/referral';
+import { createCaseRecord, getCaseStore } from '@/lib/cases';
 
 // Helper function to read file as Data URL
 const toDataURL = (file: File): Promise<string> =>
@@ -18,46 +28,43 @@ const toDataURL = (file: File): Promise<string> =>
     reader.readAsDataURL(file);
   });
 
-type ResultState = (PredictionResult & { uploadedImage?: string }) | null;
-
 export default function Home() {
-  const [result, setResult] = useState<ResultState | null>(null);
+  const [activeCase, setActiveCase] = useState<CaseRecord | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
+  useEffect(
+    () => onCaseSynced((synced) => setActiveCase((current) => (current?.id === synced.id ? synced : current))),
+    []
+  );
+
   const handlePredict = async (data: SymptomFormValues) => {
     setIsLoading(true);
-    setResult(null);
+    setActiveCase(null);
 
     try {
       const imageDataUrl = data.ctScanImage ? await toDataURL(data.ctScanImage) : undefined;
       
-      const predictionInput = {
-        ctScanImage: imageDataUrl,
-        timeSinceOnset: data.timeSinceOnset,
-        faceDroop: data.faceDroop,
-        speechSlurred: data.speechSlurred,
-        armWeakness: data.armWeakness,
-        systolicBloodPressure: data.systolicBloodPressure ? Number(data.systolicBloodPressure) : undefined,
-        historyHypertension: data.historyHypertension,
-        historyDiabetes: data.historyDiabetes,
-        historySmoking: data.historySmoking,
-        levelOfConsciousness: data.levelOfConsciousness,
-        vomiting: data.vomiting,
-        headache: data.headache,
-        diastolicBloodPressure: Number(data.diastolicBloodPressure),
-      };
+      const predictionInput = toPredictionInput(data, imageDataUrl);
       
-      const prediction = await predictStrokeType(predictionInput);
+      const prediction = await predictWithOfflineFallback(predictionInput);
 
       if (!prediction || !prediction.strokeType) {
         throw new Error('AI failed to return a valid diagnosis.');
       }
       
-      setResult({
-        ...prediction,
-        uploadedImage: imageDataUrl,
-      });
+      const record = createCaseRecord(data, predictionInput, prediction, imageDataUrl);
+      setActiveCase(record);
+      if (prediction.offline) {
+        toast({
+          title: 'Offline Triage',
+          description: 'No connection to the AI service. This case will be re-analysed when you are back online.',
+        });
+      }
+      await saveCase(record);
+      if (record.pendingSync) {
+        requestOutboxSync().catch((error) => console.warn('Background sync unavailable:', error));
+      }
 
     } catch (error) {
       console.error(error);
@@ -72,40 +79,74 @@ export default function Home() {
     }
   };
 
+  const saveCase = async (record: CaseRecord) => {
+    try {
+      await getCaseStore().save(record);
+    } catch (error) {
+      console.error(error);
+      toast({
+        variant: 'destructive',
+        title: 'Case Not Saved',
+        description: 'The result is shown but could not be saved to case history.',
+      });
+    }
+  };
+
+  const updateActiveCase = (changes: Partial<CaseRecord>) => {
+    if (!activeCase) {
+      return;
+    }
+    const updated = { ...activeCase, ...changes, updatedAt: new Date().toISOString() };
+    setActiveCase(updated);
+    saveCase(updated);
+  };
+
+  const handleMilestonesChange = (milestones: Milestones) => updateActiveCase({ milestones });
+
+  const handleDosingChange = (dosing: ThrombolyticDose) => updateActiveCase({ dosing });
+
+  const handleBloodPressureReadingsChange = (bloodPressureReadings: BloodPressureReading[]) =>
+    updateActiveCase({ bloodPressureReadings });
+
+  const handleObservationsChange = (observations: Observation[]) => updateActiveCase({ observations });
+
+  const handleReferralChange = (referral: ReferralDetails) => updateActiveCase({ referral });
+
   const handleReset = () => {
-    setResult(null);
+    setActiveCase(null);
   };
 
   return (
-    <div className="flex flex-col min-h-screen">
-      <header className="py-4 px-4 sm:px-6 md:px-8">
-        <div className="flex items-center gap-2">
-          <BrainCircuit className="h-8 w-8 text-primary" />
-          <h1 className="text-2xl font-bold text-gray-800">NeuroAssist</h1>
-        </div>
-      </header>
-
-      <main className="flex-grow flex items-center justify-center p-4 sm:p-6 md:p-8">
-        <div className="w-full max-w-2xl mx-auto">
-          {isLoading ? (
-            <div className="flex flex-col items-center justify-center gap-4 text-center">
-              <Loader2 className="h-12 w-12 animate-spin text-primary" />
-              <p className="text-lg font-medium text-muted-foreground">Analyzing symptoms...</p>
-              <p className="text-sm text-muted-foreground">Please wait while our AI processes the information.</p>
-            </div>
-          ) : result ? (
-            <ResultsDisplay result={result} onReset={handleReset} />
-          ) : (
-            <SymptomForm onSubmit={handlePredict} isLoading={isLoading} />
-          )}
+    <AppShell>
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center gap-4 text-center">
+          <Loader2 className="h-12 w-12 animate-spin text-primary" />
+          <p className="text-lg font-medium text-muted-foreground">Analyzing symptoms...</p>
+          <p className="text-sm text-muted-foreground">Please wait while our AI processes the information.</p>
         </div>
-      </main>
-
-      <footer className="text-center p-4 text-xs text-muted-foreground">
-        <p>
-          Disclaimer: NeuroAssist is for informational purposes only and is not a substitute for professional medical advice, diagnosis, or treatment.
-        </p>
-      </footer>
-    </div>
+      ) : activeCase ? (
+        <ResultsDisplay
+          result={{
+            ...activeCase.result,
+            uploadedImage: activeCase.image,
+            milestones: activeCase.milestones,
+            dosing: activeCase.dosing,
+            bloodPressureReadings: activeCase.bloodPressureReadings,
+            observations: activeCase.observations,
+            input: activeCase.input,
+            assessedAt: activeCase.createdAt,
+            referral: activeCase.referral,
+          }}
+          onMilestonesChange={handleMilestonesChange}
+          onDosingChange={handleDosingChange}
+          onBloodPressureReadingsChange={handleBloodPressureReadingsChange}
+          onObservationsChange={handleObservationsChange}
+          onReferralChange={handleReferralChange}
+          onReset={handleReset}
+        />
+      ) : (
+        <SymptomForm onSubmit={handlePredict} isLoading={isLoading} />
+      )}
+    </AppShell>
   );
 }
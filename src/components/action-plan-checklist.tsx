@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import type { ActionPlan } from '@/lib/actions';
+
+interface ActionPlanChecklistProps {
+  plan: ActionPlan;
+}
+
+/** Renders an action plan as sections of steps the clinician can tick off as they go. */
+export function ActionPlanChecklist({ plan }: ActionPlanChecklistProps) {
+  const [completed, setCompleted] = useState<Record<string, boolean>>({});
+
+  const toggle = (stepId: string, checked: boolean) =>
+    setCompleted((current) => ({ ...current, [stepId]: checked }));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="text-lg font-bold text-foreground">{plan.title}</p>
+        <p className="text-sm text-foreground">{plan.summary}</p>
+      </div>
+      {plan.sections.map((section) => (
+        <div key={section.title} className="space-y-2">
+          <p className="text-sm font-semibold text-muted-foreground">{section.title}</p>
+          <ul className="space-y-2">
+            {section.steps.map((step) => {
+              const id = `${plan.key}-${step.id}`;
+              return (
+                <li key={step.id} className="flex items-start gap-3">
+                  <Checkbox
+                    id={id}
+                    className="mt-0.5"
+                    checked={completed[step.id] ?? false}
+                    onCheckedChange={(checked) => toggle(step.id, checked === true)}
+                  />
+                  <Label
+                    htmlFor={id}
+                    className={cn('font-normal leading-relaxed', completed[step.id] && 'text-muted-foreground line-through')}
+                  >
+                    <span className="font-semibold">{step.label}:</span> {step.detail}
+                  </Label>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        {plan.protocol ? `${plan.protocol} protocol, version ${plan.version}` : `Protocol version ${plan.version}`}
+      </p>
+    </div>
+  );
+}
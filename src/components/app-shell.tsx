@@ -0,0 +1,48 @@
+import Link from 'next/link';
+import { BrainCircuit, FolderClock, PlusCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ConnectivityIndicator } from '@/components/connectivity-indicator';
+
+interface AppShellProps {
+  children: React.ReactNode;
+}
+
+export function AppShell({ children }: AppShellProps) {
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="py-4 px-4 sm:px-6 md:px-8">
+        <div className="flex items-center justify-between gap-2">
+          <Link href="/" className="flex items-center gap-2">
+            <BrainCircuit className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl font-bold text-gray-800">NeuroAssist</h1>
+          </Link>
+          <nav className="flex items-center gap-2">
+            <ConnectivityIndicator />
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <PlusCircle className="mr-2 h-4 w-4" />
+                New Case
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/cases">
+                <FolderClock className="mr-2 h-4 w-4" />
+                Cases
+              </Link>
+            </Button>
+          </nav>
+        </div>
+      </header>
+
+      <main className="flex-grow flex items-center justify-center p-4 sm:p-6 md:p-8">
+        <div className="w-full max-w-2xl mx-auto">{children}</div>
+      </main>
+
+      <footer className="text-center p-4 text-xs text-muted-foreground">
+        <p>
+          Disclaimer: NeuroAssist is for informational purposes only and is not a substitute for professional medical advice, diagnosis, or treatment.
+        </p>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { CheckCircle2, Gauge, Plus, X } from 'lucide-react';
+import type { StrokeType } from '@/lib/eligibility';
+import type { Protocol } from '@/lib/protocols';
+import {
+  BLOOD_PRESSURE_PATHWAYS,
+  bloodPressureTarget,
+  defaultBloodPressurePathway,
+  formatTarget,
+  isAboveTarget,
+  sortReadings,
+  type BloodPressurePathway,
+  type BloodPressureReading,
+} from '@/lib/blood-pressure';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface BloodPressurePanelProps {
+  /** The protocol the result followed, whose targets and antihypertensives are shown. */
+  protocol: Protocol;
+  strokeType: StrokeType;
+  tenecteplaseEligible: boolean;
+  /** Whether the thrombolytic bolus has been recorded. */
+  lysisGiven: boolean;
+  readings: BloodPressureReading[];
+  /** Readings taken with the serial observations: shown here, but edited in the observation log. */
+  observedReadings?: BloodPressureReading[];
+  onReadingsChange: (readings: BloodPressureReading[]) => void;
+}
+
+const chartConfig = {
+  systolic: {
+    label: 'Systolic',
+    color: 'hsl(var(--destructive))',
+  },
+  diastolic: {
+    label: 'Diastolic',
+    color: 'hsl(var(--primary))',
+  },
+} satisfies ChartConfig;
+
+export function BloodPressurePanel({
+  protocol,
+  strokeType,
+  tenecteplaseEligible,
+  lysisGiven,
+  readings,
+  observedReadings = [],
+  onReadingsChange,
+}: BloodPressurePanelProps) {
+  const [pathway, setPathway] = useState<BloodPressurePathway>(
+    defaultBloodPressurePathway(strokeType, tenecteplaseEligible, lysisGiven)
+  );
+  const [systolic, setSystolic] = useState('');
+  const [diastolic, setDiastolic] = useState('');
+  const { toast } = useToast();
+
+  // Recording the bolus moves the patient onto the post-lysis targets.
+  useEffect(() => {
+    setPathway(defaultBloodPressurePathway(strokeType, tenecteplaseEligible, lysisGiven));
+  }, [strokeType, tenecteplaseEligible, lysisGiven]);
+
+  const target = bloodPressureTarget(pathway, protocol);
+  const sorted = sortReadings([...readings, ...observedReadings]);
+  const latest = sorted.at(-1);
+  const latestAboveTarget = latest !== undefined && isAboveTarget(latest, target);
+
+  const handleLogReading = () => {
+    const reading = { takenAt: new Date().toISOString(), systolic: Number(systolic), diastolic: Number(diastolic) };
+    if (!systolic || !diastolic || !(reading.systolic > 0) || !(reading.diastolic > 0)) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Reading',
+        description: 'Please enter both the systolic and diastolic pressure in mmHg.',
+      });
+      return;
+    }
+    onReadingsChange([...readings, reading]);
+    setSystolic('');
+    setDiastolic('');
+  };
+
+  const removeReading = (takenAt: string) => onReadingsChange(readings.filter((reading) => reading.takenAt !== takenAt));
+
+  const chartData = sorted.map((reading) => ({ ...reading, time: format(new Date(reading.takenAt), 'HH:mm') }));
+
+  return (
+    <Card className="bg-secondary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Gauge className="h-6 w-6 text-primary" />
+          Blood Pressure Management
+        </CardTitle>
+        <CardDescription>Check readings against the {protocol.name} protocol targets and log repeat readings.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select value={pathway} onValueChange={(value) => setPathway(value as BloodPressurePathway)}>
+            <SelectTrigger className="w-full sm:w-64" aria-label="Pathway">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLOOD_PRESSURE_PATHWAYS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {bloodPressureTarget(option, protocol).label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm font-semibold">Target {formatTarget(target)}</p>
+        </div>
+
+        {latest === undefined ? (
+          <p className="text-sm text-muted-foreground">No readings logged yet.</p>
+        ) : latestAboveTarget ? (
+          <Alert variant="destructive">
+            <Gauge className="h-4 w-4" />
+            <AlertTitle>
+              Latest Reading {latest.systolic}/{latest.diastolic} mmHg Is Above Target
+            </AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>{target.advice}</p>
+              {protocol.antihypertensives.map((regimen) => (
+                <div key={regimen.drug}>
+                  <p className="font-semibold">{regimen.drug}</p>
+                  <ol className="list-decimal pl-5">
+                    {regimen.steps.map((step) => (
+                      <li key={step}>{step}</li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <Alert className="border-green-600/50 [&>svg]:text-green-600">
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>
+              Latest Reading {latest.systolic}/{latest.diastolic} mmHg Is at Target
+            </AlertTitle>
+            <AlertDescription>Recheck at the interval the protocol sets for this pathway.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-grow">
+            <Label htmlFor="bp-systolic">Systolic (mmHg)</Label>
+            <Input id="bp-systolic" type="number" value={systolic} onChange={(e) => setSystolic(e.target.value)} />
+          </div>
+          <div className="flex-grow">
+            <Label htmlFor="bp-diastolic">Diastolic (mmHg)</Label>
+            <Input
+              id="bp-diastolic"
+              type="number"
+              value={diastolic}
+              onChange={(e) => setDiastolic(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleLogReading(); }}
+            />
+          </div>
+          <Button onClick={handleLogReading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Log
+          </Button>
+        </div>
+
+        {chartData.length > 1 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 16, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} domain={['dataMin - 20', 'dataMax + 20']} />
+              <ReferenceLine y={target.maxSystolic} stroke="var(--color-systolic)" strokeDasharray="4 4" />
+              {target.maxDiastolic !== undefined && (
+                <ReferenceLine y={target.maxDiastolic} stroke="var(--color-diastolic)" strokeDasharray="4 4" />
+              )}
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="systolic" type="monotone" stroke="var(--color-systolic)" strokeWidth={2} dot />
+              <Line dataKey="diastolic" type="monotone" stroke="var(--color-diastolic)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {sorted.length > 0 && (
+          <ul className="space-y-1">
+            {[...sorted].reverse().map((reading) => (
+              <li key={reading.takenAt} className="flex items-center justify-between rounded-md border bg-background px-3 py-1">
+                <span className="font-mono text-sm">{format(new Date(reading.takenAt), 'HH:mm')}</span>
+                <span className={isAboveTarget(reading, target) ? 'font-semibold text-destructive' : 'font-semibold'}>
+                  {reading.systolic}/{reading.diastolic} mmHg
+                </span>
+                {readings.includes(reading) ? (
+                  <Button variant="ghost" size="icon" aria-label="Remove reading" onClick={() => removeReading(reading.takenAt)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <span className="w-10 text-center text-xs text-muted-foreground">Obs</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { WifiOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useToast } from '@/hooks/use-toast';
+import { getCaseStore } from '@/lib/cases';
+import { onOutboxReplayRequested } from '@/lib/offline/outbox';
+import { syncOfflineCases } from '@/lib/offline/sync';
+
+/**
+ * Shows an offline badge and replays the offline case outbox whenever the connection comes
+ * back, either on the browser's `online` event or when the service worker's background sync fires.
+ */
+export function ConnectivityIndicator() {
+  const isOnline = useOnlineStatus();
+  const { toast } = useToast();
+
+  const replayOutbox = useCallback(() => {
+    syncOfflineCases(getCaseStore())
+      .then((synced) => {
+        if (synced > 0) {
+          toast({
+            title: 'Offline Cases Synced',
+            description: `${synced} offline ${synced === 1 ? 'case has' : 'cases have'} been re-analysed online.`,
+          });
+        }
+      })
+      .catch((error) => console.error('Offline case sync failed:', error));
+  }, [toast]);
+
+  useEffect(() => {
+    if (isOnline) {
+      replayOutbox();
+    }
+  }, [isOnline, replayOutbox]);
+
+  useEffect(() => onOutboxReplayRequested(replayOutbox), [replayOutbox]);
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <Badge variant="destructive">
+      <WifiOff className="mr-1 h-3 w-3" />
+      Offline
+    </Badge>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { format, setHours, setMinutes, startOfDay } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface DateTimePickerProps {
+  value?: Date;
+  onChange: (value: Date | undefined) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+/** A calendar date picker paired with a clock-time input. Future dates cannot be selected. */
+export function DateTimePicker({ value, onChange, disabled, placeholder = 'Pick a date and time' }: DateTimePickerProps) {
+  const handleDateSelect = (day: Date | undefined) => {
+    if (!day) {
+      onChange(undefined);
+      return;
+    }
+    const time = value ?? new Date();
+    onChange(setMinutes(setHours(startOfDay(day), time.getHours()), time.getMinutes()));
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+      return;
+    }
+    onChange(setMinutes(setHours(value ?? new Date(), hours), minutes));
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={disabled}
+            className={cn('flex-grow justify-start text-left font-normal', !value && 'text-muted-foreground')}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, 'PPP') : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={handleDateSelect}
+            disabled={(day) => day > new Date()}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        className="w-32"
+        disabled={disabled}
+        value={value ? format(value, 'HH:mm') : ''}
+        onChange={(e) => handleTimeChange(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatDoseWeight, weightBandTable, type DoseParameters, type ThrombolyticDose } from '@/lib/dosing';
+import { cn } from '@/lib/utils';
+
+interface DoseCardProps {
+  parameters: DoseParameters;
+  dose: ThrombolyticDose;
+}
+
+/**
+ * A printable card for the person drawing up the dose: the patient's dose in mg and mL, the full
+ * weight band table with their band marked, and space for the independent double check.
+ */
+export function DoseCard({ parameters, dose }: DoseCardProps) {
+  const { vial } = parameters;
+  const bands = weightBandTable(parameters);
+
+  return (
+    <div className="space-y-4 p-8 text-black">
+      <div>
+        <h1 className="text-2xl font-bold">{dose.drug} Dose Card</h1>
+        <p className="text-sm">Calculated {new Date(dose.calculatedAt).toLocaleString()}</p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-8 gap-y-2 text-lg">
+        <dt className="font-semibold">Patient weight</dt>
+        <dd>{formatDoseWeight(dose)}</dd>
+        {dose.weightBand && (
+          <>
+            <dt className="font-semibold">Weight band</dt>
+            <dd>{dose.weightBand}</dd>
+          </>
+        )}
+        <dt className="font-semibold">Total dose</dt>
+        <dd className="font-bold">
+          {dose.totalDoseMg} mg = {dose.totalVolumeMl} mL
+        </dd>
+        {dose.infusion && (
+          <>
+            <dt className="font-semibold">IV bolus</dt>
+            <dd>
+              {dose.bolusDoseMg} mg = {dose.bolusVolumeMl} mL
+            </dd>
+            <dt className="font-semibold">Infusion</dt>
+            <dd>
+              {dose.infusion.doseMg} mg = {dose.infusion.volumeMl} mL over {dose.infusion.minutes} min at{' '}
+              {dose.infusion.rateMlPerHour} mL/h
+            </dd>
+          </>
+        )}
+        <dt className="font-semibold">Vials</dt>
+        <dd>
+          {dose.vialsNeeded} × {vial.mg} mg, reconstituted to {vial.ml} mL ({vial.mg / vial.ml} mg/mL)
+        </dd>
+      </dl>
+
+      {bands.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-black">Weight</TableHead>
+              <TableHead className="text-black">Dose (mg)</TableHead>
+              <TableHead className="text-black">Volume (mL)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bands.map((band) => (
+              <TableRow key={band.label} className={cn(band.label === dose.weightBand && 'border-2 border-black font-bold')}>
+                <TableCell>{band.label}</TableCell>
+                <TableCell>{band.doseMg}</TableCell>
+                <TableCell>{band.volumeMl}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="grid grid-cols-2 gap-8 pt-8 text-sm">
+        <p className="border-t border-black pt-1">Prepared by</p>
+        <p className="border-t border-black pt-1">Checked by</p>
+      </div>
+    </div>
+  );
+}
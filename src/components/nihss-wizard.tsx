@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { useFormContext } from 'react-hook-form';
+import { ChevronLeft, ChevronRight, ClipboardList, X } from 'lucide-react';
+import type { SymptomFormValues } from '@/types';
+import {
+  NIHSS_MAX_SCORE,
+  NIHSS_STEPS,
+  computeNihssTotal,
+  nihssSeverity,
+  unscoredNihssItems,
+  type NihssScores,
+} from '@/lib/scores/nihss';
+import { Button } from '@/components/ui/button';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel } from '@/components/ui/form';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+
+export function NihssWizard() {
+  const form = useFormContext<SymptomFormValues>();
+  const nihss = form.watch('nihss');
+  const [step, setStep] = useState(0);
+
+  const startAssessment = () => {
+    setStep(0);
+    // Every item starts unscored: the schema rejects the NIHSS until each one has been chosen.
+    form.setValue('nihss', {} as NihssScores);
+  };
+
+  const clearAssessment = () => {
+    setStep(0);
+    form.setValue('nihss', undefined);
+  };
+
+  if (!nihss) {
+    return (
+      <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed p-6 text-center">
+        <ClipboardList className="h-8 w-8 text-primary" />
+        <p className="text-sm text-muted-foreground">
+          Step through all 11 NIH Stroke Scale items to record stroke severity.
+        </p>
+        <Button type="button" variant="outline" onClick={startAssessment}>
+          Start NIHSS Assessment
+        </Button>
+      </div>
+    );
+  }
+
+  const total = computeNihssTotal(nihss);
+  const unscored = unscoredNihssItems(nihss);
+  const current = NIHSS_STEPS[step];
+  const isLastStep = step === NIHSS_STEPS.length - 1;
+  const isStepScored = current.items.every((item) => nihss[item.id] !== undefined);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground">
+            Item {step + 1} of {NIHSS_STEPS.length}
+          </p>
+          <p className="font-semibold">{current.title}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-sm font-medium text-muted-foreground">
+            {unscored.length > 0 ? 'Running Total' : 'Total'}
+          </p>
+          <p className="font-semibold">
+            {total} / {NIHSS_MAX_SCORE}
+            {unscored.length > 0 ? ' (incomplete)' : ` (${nihssSeverity(total)})`}
+          </p>
+        </div>
+      </div>
+      <Progress value={((step + 1) / NIHSS_STEPS.length) * 100} />
+
+      {current.items.map((item) => (
+        <FormField
+          key={item.id}
+          control={form.control}
+          name={`nihss.${item.id}`}
+          render={({ field }) => (
+            <FormItem className="space-y-3">
+              <FormLabel>
+                {item.code}. {item.label}
+              </FormLabel>
+              <FormDescription>{item.help}</FormDescription>
+              <FormControl>
+                <RadioGroup
+                  value={field.value === undefined ? '' : String(field.value)}
+                  onValueChange={(value) => field.onChange(Number(value))}
+                >
+                  {item.options.map((option) => (
+                    <div key={option.score} className="flex items-center gap-3">
+                      <RadioGroupItem value={String(option.score)} id={`nihss-${item.id}-${option.score}`} />
+                      <Label htmlFor={`nihss-${item.id}-${option.score}`} className="font-normal">
+                        <span className="font-semibold">{option.score}</span> – {option.description}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+            </FormItem>
+          )}
+        />
+      ))}
+
+      {form.formState.errors.nihss && unscored.length > 0 && (
+        <p className="text-sm font-medium text-destructive">
+          Score every item before submitting, or clear the NIHSS. Not yet scored:{' '}
+          {unscored.map((item) => item.code).join(', ')}.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between pt-2">
+        <Button type="button" variant="ghost" size="sm" onClick={clearAssessment}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" disabled={step === 0} onClick={() => setStep(step - 1)}>
+            <ChevronLeft className="mr-1 h-4 w-4" />
+            Back
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            disabled={isLastStep || !isStepScored}
+            onClick={() => setStep(step + 1)}
+          >
+            Next
+            <ChevronRight className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
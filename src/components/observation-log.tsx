@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Activity, AlertTriangle, BellRing, Plus, X } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { useToast } from '@/hooks/use-toast';
+import type { Protocol } from '@/lib/protocols';
+import { formatDuration } from '@/lib/milestones';
+import { findDeterioration, nextObservationDue, sortObservations, type Observation } from '@/lib/observations';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+
+interface ObservationLogProps {
+  /** The protocol the result followed, whose observation schedule the reminders keep to. */
+  protocol: Protocol;
+  /** When the schedule starts: the thrombolytic bolus if one was given. */
+  scheduleStartsAt?: string;
+  /** The NIHSS total from the assessment, which later scores are compared with. */
+  baselineNihss?: number;
+  observations: Observation[];
+  onObservationsChange: (observations: Observation[]) => void;
+}
+
+type ObservationField = Exclude<keyof Observation, 'takenAt'>;
+
+const FIELDS: { id: ObservationField; label: string; min: number; max: number }[] = [
+  { id: 'systolic', label: 'Systolic (mmHg)', min: 0, max: 300 },
+  { id: 'diastolic', label: 'Diastolic (mmHg)', min: 0, max: 200 },
+  { id: 'heartRate', label: 'Heart rate (bpm)', min: 0, max: 300 },
+  { id: 'gcs', label: 'GCS (3-15)', min: 3, max: 15 },
+  { id: 'nihss', label: 'NIHSS (0-42)', min: 0, max: 42 },
+];
+
+const vitalsChartConfig = {
+  systolic: { label: 'Systolic', color: 'hsl(var(--destructive))' },
+  diastolic: { label: 'Diastolic', color: 'hsl(var(--primary))' },
+  heartRate: { label: 'Heart rate', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+const neuroChartConfig = {
+  gcs: { label: 'GCS', color: 'hsl(var(--chart-3))' },
+  nihss: { label: 'NIHSS', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+// Notifications go through the service worker: Android Chrome has no Notification constructor.
+const notificationsSupported = () =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+/** Shows a system notification; the in-app toast is the fallback, so a failure is ignored. */
+const showNotification = (title: string, body: string) => {
+  navigator.serviceWorker.ready
+    .then((registration) => registration.showNotification(title, { body }))
+    .catch(() => undefined);
+};
+
+export function ObservationLog({
+  protocol,
+  scheduleStartsAt,
+  baselineNihss,
+  observations,
+  onObservationsChange,
+}: ObservationLogProps) {
+  const now = useNow();
+  const { toast } = useToast();
+  const [values, setValues] = useState<Partial<Record<ObservationField, string>>>({});
+  const [notificationsEnabled, setNotificationsEnabled] = useState(
+    () => notificationsSupported() && Notification.permission === 'granted'
+  );
+  const remindedFor = useRef<string>();
+
+  const sorted = sortObservations(observations);
+  const startsAt = scheduleStartsAt ?? sorted[0]?.takenAt;
+  const due = startsAt ? nextObservationDue(protocol.observationSchedule, startsAt, observations) : undefined;
+  const dueAt = due?.toISOString();
+  const secondsUntilDue = due ? Math.floor((due.getTime() - now.getTime()) / 1000) : undefined;
+  const isOverdue = secondsUntilDue !== undefined && secondsUntilDue <= 0;
+  const alerts = findDeterioration(observations, baselineNihss);
+
+  // Remind once per due time, with a system notification when the page is in the background.
+  useEffect(() => {
+    if (!isOverdue || !dueAt || remindedFor.current === dueAt) {
+      return;
+    }
+    remindedFor.current = dueAt;
+    toast({ title: 'Observations Due', description: 'BP and neurological observations are due now.' });
+    if (notificationsEnabled) {
+      showNotification('NeuroAssist: observations due', 'BP and neurological observations are due now.');
+    }
+  }, [isOverdue, dueAt, notificationsEnabled, toast]);
+
+  const enableNotifications = async () => {
+    setNotificationsEnabled((await Notification.requestPermission()) === 'granted');
+  };
+
+  const handleRecord = () => {
+    const observation: Observation = { takenAt: new Date().toISOString() };
+    for (const field of FIELDS) {
+      const raw = values[field.id];
+      if (!raw) {
+        continue;
+      }
+      const value = Number(raw);
+      if (isNaN(value) || value < field.min || value > field.max) {
+        toast({
+          variant: 'destructive',
+          title: 'Invalid Observation',
+          description: `${field.label} must be between ${field.min} and ${field.max}.`,
+        });
+        return;
+      }
+      observation[field.id] = value;
+    }
+    if (Object.keys(observation).length === 1) {
+      toast({ variant: 'destructive', title: 'Nothing to Record', description: 'Enter at least one observation.' });
+      return;
+    }
+    onObservationsChange([...observations, observation]);
+    setValues({});
+  };
+
+  const removeObservation = (takenAt: string) =>
+    onObservationsChange(observations.filter((observation) => observation.takenAt !== takenAt));
+
+  const chartData = sorted.map((observation) => ({ ...observation, time: format(new Date(observation.takenAt), 'HH:mm') }));
+  const hasNeuroScores = sorted.some((observation) => observation.gcs !== undefined || observation.nihss !== undefined);
+
+  return (
+    <Card className="bg-secondary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Activity className="h-6 w-6 text-primary" />
+          Observations
+        </CardTitle>
+        <CardDescription>
+          Record serial vital signs and neurological scores. Reminders follow the protocol&apos;s schedule from the
+          thrombolytic bolus, or from the first observation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Neurological Deterioration</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {alerts.map((alert) => (
+                  <li key={`${alert.takenAt}-${alert.message}`}>
+                    {format(new Date(alert.takenAt), 'HH:mm')}: {alert.message}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div
+          className={cn(
+            'flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-background p-3',
+            isOverdue && 'border-destructive/50 bg-destructive/10'
+          )}
+        >
+          <p className="text-sm font-medium">
+            {secondsUntilDue === undefined
+              ? startsAt
+                ? 'The observation schedule has ended.'
+                : 'The schedule starts with the thrombolytic bolus or the first observation.'
+              : isOverdue
+              ? `Observations overdue by ${formatDuration(-secondsUntilDue)}`
+              : `Next observations due in ${formatDuration(secondsUntilDue)}`}
+          </p>
+          {notificationsSupported() && !notificationsEnabled && (
+            <Button variant="outline" size="sm" onClick={enableNotifications}>
+              <BellRing className="mr-2 h-4 w-4" />
+              Enable Reminders
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          {FIELDS.map((field) => (
+            <div key={field.id}>
+              <Label htmlFor={`observation-${field.id}`} className="text-xs">
+                {field.label}
+              </Label>
+              <Input
+                id={`observation-${field.id}`}
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={values[field.id] ?? ''}
+                onChange={(e) => setValues((current) => ({ ...current, [field.id]: e.target.value }))}
+              />
+            </div>
+          ))}
+        </div>
+        <Button onClick={handleRecord} className="w-full sm:w-auto">
+          <Plus className="mr-2 h-4 w-4" />
+          Record Observations
+        </Button>
+
+        {chartData.length > 1 && (
+          <ChartContainer config={vitalsChartConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 16, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="systolic" type="monotone" stroke="var(--color-systolic)" strokeWidth={2} connectNulls dot />
+              <Line dataKey="diastolic" type="monotone" stroke="var(--color-diastolic)" strokeWidth={2} connectNulls dot />
+              <Line dataKey="heartRate" type="monotone" stroke="var(--color-heartRate)" strokeWidth={2} connectNulls dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {chartData.length > 1 && hasNeuroScores && (
+          <ChartContainer config={neuroChartConfig} className="aspect-auto h-48 w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 16, top: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="gcs" type="stepAfter" stroke="var(--color-gcs)" strokeWidth={2} connectNulls dot />
+              <Line dataKey="nihss" type="stepAfter" stroke="var(--color-nihss)" strokeWidth={2} connectNulls dot />
+            </LineChart>
+          </ChartContainer>
+        )}
+
+        {sorted.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>BP</TableHead>
+                <TableHead>HR</TableHead>
+                <TableHead>GCS</TableHead>
+                <TableHead>NIHSS</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...sorted].reverse().map((observation) => (
+                <TableRow key={observation.takenAt}>
+                  <TableCell className="font-mono">{format(new Date(observation.takenAt), 'HH:mm')}</TableCell>
+                  <TableCell>
+                    {observation.systolic ?? '–'}/{observation.diastolic ?? '–'}
+                  </TableCell>
+                  <TableCell>{observation.heartRate ?? '–'}</TableCell>
+                  <TableCell>{observation.gcs ?? '–'}</TableCell>
+                  <TableCell>{observation.nihss ?? '–'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove observation"
+                      onClick={() => removeObservation(observation.takenAt)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { format, parseISO } from 'date-fns';
+import type { PredictionResult, StoredSymptomValues } from '@/types';
+import { formatThrombolyticDose, type ThrombolyticDose } from '@/lib/dosing';
+import { MILESTONES, doorToMilestoneMinutes, type Milestones } from '@/lib/milestones';
+import { sortObservations, type Observation } from '@/lib/observations';
+import { sortReadings, type BloodPressureReading } from '@/lib/blood-pressure';
+import { referralInputSections, type ReferralDetails } from '@/lib/referral';
+import { NIHSS_MAX_SCORE, nihssSeverity } from '@/lib/scores/nihss';
+
+interface ReferralLetterProps {
+  details: ReferralDetails;
+  result: PredictionResult;
+  input: StoredSymptomValues;
+  /** When the assessment was made. */
+  assessedAt: string;
+  image?: string;
+  milestones: Milestones;
+  dosing?: ThrombolyticDose;
+  bloodPressureReadings?: BloodPressureReading[];
+  observations?: Observation[];
+  generatedAt: string;
+}
+
+const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-1 break-inside-avoid">
+    <h2 className="border-b border-black text-base font-bold uppercase tracking-wide">{title}</h2>
+    {children}
+  </section>
+);
+
+const Rows: React.FC<{ rows: { label: string; value: string }[] }> = ({ rows }) => (
+  <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-0.5 text-sm">
+    {rows.map((row) => (
+      <div key={row.label} className="contents">
+        <dt className="font-semibold">{row.label}</dt>
+        <dd>{row.value}</dd>
+      </div>
+    ))}
+  </dl>
+);
+
+/**
+ * The referral letter sent with the patient to the receiving stroke centre: who they are, everything
+ * entered in the assessment, the scores, CT image, prediction and action plan, and the timeline so far.
+ * Printed on its own, or saved as a PDF from the print dialog.
+ */
+export function ReferralLetter({
+  details,
+  result,
+  input,
+  assessedAt,
+  image,
+  milestones,
+  dosing,
+  bloodPressureReadings = [],
+  observations = [],
+  generatedAt,
+}: ReferralLetterProps) {
+  const failedCriteria = result.eligibilityCriteria.filter((criterion) => criterion.kind !== 'relative' && !criterion.passed);
+  const latestReading = sortReadings(bloodPressureReadings).at(-1);
+  const latestObservation = sortObservations(observations).at(-1);
+
+  const patientRows = [
+    { label: 'Name', value: details.patientName || 'Not given' },
+    { label: 'Record number', value: details.patientId || 'Not given' },
+  ];
+  if (details.dateOfBirth) {
+    patientRows.push({ label: 'Date of birth', value: format(parseISO(details.dateOfBirth), 'd MMM yyyy') });
+  }
+
+  const timelineRows = [{ label: 'Assessed', value: formatTimestamp(assessedAt) }];
+  if (result.lastKnownWell) {
+    timelineRows.unshift({ label: 'Last known well', value: formatTimestamp(result.lastKnownWell) });
+  }
+  if (result.treatmentWindowEndsAt && result.strokeType !== 'Hemorrhagic') {
+    timelineRows.push({ label: 'Thrombolysis window ends', value: formatTimestamp(result.treatmentWindowEndsAt) });
+  }
+  for (const milestone of MILESTONES) {
+    const reachedAt = milestones[milestone.id];
+    if (reachedAt) {
+      const minutes = doorToMilestoneMinutes(milestones, milestone.id);
+      timelineRows.push({
+        label: milestone.label,
+        value: `${formatTimestamp(reachedAt)}${milestone.id !== 'arrival' && minutes !== undefined ? ` (${minutes} min)` : ''}`,
+      });
+    }
+  }
+
+  const scoreRows = [
+    { label: 'RACE', value: `${result.raceScore}${result.lvoSuspected ? ' (large vessel occlusion suspected)' : ''}` },
+  ];
+  if (result.nihssTotal !== undefined) {
+    scoreRows.unshift({
+      label: 'NIHSS',
+      value: `${result.nihssTotal} / ${NIHSS_MAX_SCORE} (${nihssSeverity(result.nihssTotal)})`,
+    });
+  }
+  if (result.siriraj) {
+    scoreRows.push({ label: 'Siriraj', value: `${result.siriraj.score.toFixed(2)} (${result.siriraj.interpretation})` });
+  }
+  if (result.guysHospital) {
+    scoreRows.push({
+      label: 'Guy\'s Hospital',
+      value: `${result.guysHospital.score.toFixed(2)} (${result.guysHospital.interpretation})`,
+    });
+  }
+
+  const treatmentRows = [
+    {
+      label: 'Tenecteplase eligible',
+      value: result.tenecteplaseEligible
+        ? 'Yes'
+        : `No${failedCriteria.length > 0 ? `: ${failedCriteria.map((criterion) => criterion.label).join('; ')}` : ''}`,
+    },
+  ];
+  if (dosing) {
+    treatmentRows.push({ label: 'Thrombolytic dose', value: formatThrombolyticDose(dosing) });
+  }
+  if (latestReading) {
+    treatmentRows.push({
+      label: 'Latest BP',
+      value: `${latestReading.systolic}/${latestReading.diastolic} mmHg at ${formatTimestamp(latestReading.takenAt)}`,
+    });
+  }
+  if (latestObservation) {
+    const neuro = [
+      latestObservation.gcs !== undefined && `GCS ${latestObservation.gcs}`,
+      latestObservation.nihss !== undefined && `NIHSS ${latestObservation.nihss}`,
+    ].filter(Boolean);
+    if (neuro.length > 0) {
+      treatmentRows.push({
+        label: 'Latest neuro observations',
+        value: `${neuro.join(', ')} at ${formatTimestamp(latestObservation.takenAt)}`,
+      });
+    }
+  }
+
+  return (
+    <div className="space-y-4 p-8 text-black">
+      <header className="flex items-start justify-between gap-8">
+        <div>
+          <h1 className="text-2xl font-bold">Acute Stroke Referral</h1>
+          {details.receivingCentre && <p>To: {details.receivingCentre}</p>}
+          {details.referringHospital && <p>From: {details.referringHospital}</p>}
+        </div>
+        <p className="text-right text-sm">Generated {formatTimestamp(generatedAt)}</p>
+      </header>
+
+      <div className="grid grid-cols-2 gap-8">
+        <Section title="Patient">
+          <Rows rows={patientRows} />
+        </Section>
+        <Section title="Timeline">
+          <Rows rows={timelineRows} />
+        </Section>
+      </div>
+
+      <Section title="Prediction">
+        <p className="text-lg font-bold">
+          {result.strokeType} stroke, {Math.round(result.confidence * 100)}% confidence
+          {result.offline ? ' (offline triage from clinical scores only)' : ''}
+        </p>
+        {result.warnings && result.warnings.length > 0 && (
+          <ul className="list-disc pl-5 text-sm">
+            {result.warnings.map((warning) => (
+              <li key={warning.code}>{warning.message}</li>
+            ))}
+          </ul>
+        )}
+      </Section>
+
+      <div className="grid grid-cols-2 gap-8">
+        <Section title="Scores">
+          <Rows rows={scoreRows} />
+        </Section>
+        <Section title="CT">
+          {image ? (
+            <img src={image} alt="CT scan" className="max-h-48 rounded border border-black object-contain" />
+          ) : (
+            <p className="text-sm">No CT image attached.</p>
+          )}
+        </Section>
+      </div>
+
+      <Section title="Treatment">
+        <Rows rows={treatmentRows} />
+      </Section>
+
+      <Section title="Action Plan">
+        {result.actionPlan ? (
+          <div className="space-y-2 text-sm">
+            <p>
+              <span className="font-semibold">{result.actionPlan.title}.</span> {result.actionPlan.summary}
+            </p>
+            {result.actionPlan.sections.map((section) => (
+              <div key={section.title}>
+                <p className="font-semibold">{section.title}</p>
+                <ul className="list-disc pl-5">
+                  {section.steps.map((step) => (
+                    <li key={step.id}>
+                      <span className="font-semibold">{step.label}:</span> {step.detail}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            <p className="text-xs">
+              {result.actionPlan.protocol
+                ? `${result.actionPlan.protocol} protocol, version ${result.actionPlan.version}`
+                : `Protocol version ${result.actionPlan.version}`}
+            </p>
+          </div>
+        ) : (
+          <p className="whitespace-pre-wrap text-sm">{result.action}</p>
+        )}
+      </Section>
+
+      <Section title="Assessment">
+        <div className="grid grid-cols-2 gap-x-8 gap-y-3">
+          {referralInputSections(input).map((section) => (
+            <div key={section.title} className="break-inside-avoid">
+              <p className="text-sm font-semibold underline">{section.title}</p>
+              <Rows rows={section.rows} />
+            </div>
+          ))}
+        </div>
+      </Section>
+
+      {details.notes && (
+        <Section title="Notes">
+          <p className="whitespace-pre-wrap text-sm">{details.notes}</p>
+        </Section>
+      )}
+
+      <div className="grid grid-cols-2 gap-8 pt-8 text-sm break-inside-avoid">
+        <p className="border-t border-black pt-1">Referring clinician: {details.clinicianName}</p>
+        <p className="border-t border-black pt-1">Signature</p>
+      </div>
+      <p className="text-xs">
+        Decision support output from NeuroAssist. The stroke type must be confirmed by imaging at the receiving centre.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import { FileText, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ReferralLetter } from '@/components/referral-letter';
+import { useToast } from '@/hooks/use-toast';
+import { printElement } from '@/lib/print';
+import { EMPTY_REFERRAL_DETAILS, referralDetailsProblems, type ReferralDetails } from '@/lib/referral';
+
+type ReferralPanelProps = Omit<React.ComponentProps<typeof ReferralLetter>, 'details' | 'generatedAt'> & {
+  /** The details entered when a letter was last printed for this case, if any. */
+  details?: ReferralDetails;
+  onDetailsChange: (details: ReferralDetails) => void;
+};
+
+const FIELDS: { id: Exclude<keyof ReferralDetails, 'notes'>; label: string; type?: string }[] = [
+  { id: 'patientName', label: 'Patient Name' },
+  { id: 'patientId', label: 'Record Number' },
+  { id: 'dateOfBirth', label: 'Date of Birth', type: 'date' },
+  { id: 'clinicianName', label: 'Referring Clinician' },
+  { id: 'referringHospital', label: 'Referring Hospital' },
+  { id: 'receivingCentre', label: 'Receiving Centre' },
+];
+
+export function ReferralPanel({ details, onDetailsChange, ...letter }: ReferralPanelProps) {
+  const [values, setValues] = useState<ReferralDetails>(details ?? EMPTY_REFERRAL_DETAILS);
+  const [generatedAt, setGeneratedAt] = useState(() => new Date().toISOString());
+  const letterRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const setValue = (id: keyof ReferralDetails, value: string) => setValues((current) => ({ ...current, [id]: value }));
+
+  const handlePrint = () => {
+    const problems = referralDetailsProblems(values);
+    if (problems.length > 0) {
+      toast({ variant: 'destructive', title: 'Missing Details', description: problems.join(' ') });
+      return;
+    }
+    onDetailsChange(values);
+    // The letter must show the time it was printed before the print dialog opens.
+    flushSync(() => setGeneratedAt(new Date().toISOString()));
+    if (letterRef.current) {
+      printElement(letterRef.current);
+    }
+  };
+
+  return (
+    <Card className="bg-secondary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <FileText className="h-6 w-6 text-primary" />
+          Referral Letter
+        </CardTitle>
+        <CardDescription>
+          A formatted letter for the receiving stroke centre with the assessment, scores, CT image, prediction and
+          action plan. Choose &quot;Save as PDF&quot; in the print dialog to send it electronically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {FIELDS.map((field) => (
+            <div key={field.id}>
+              <Label htmlFor={`referral-${field.id}`}>{field.label}</Label>
+              <Input
+                id={`referral-${field.id}`}
+                type={field.type ?? 'text'}
+                value={values[field.id] ?? ''}
+                onChange={(e) => setValue(field.id, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+        <div>
+          <Label htmlFor="referral-notes">Notes for the Receiving Team</Label>
+          <Textarea id="referral-notes" value={values.notes ?? ''} onChange={(e) => setValue('notes', e.target.value)} />
+        </div>
+        <Button onClick={handlePrint} className="w-full sm:w-auto">
+          <Printer className="mr-2 h-4 w-4" />
+          Print Referral Letter
+        </Button>
+        <div ref={letterRef} className="hidden">
+          <ReferralLetter details={values} generatedAt={generatedAt} {...letter} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { ResultsDisplay } from '@/components/results-display';
+import { assessClinicalFindings, finalizePrediction, type ModelPrediction } from '@/lib/assessment';
+import { baseInput } from '@/test/fixtures';
+
+const predictionInput: PredictStrokeTypeInput = {
+  ...baseInput,
+  // A CT scan takes the stroke type from the model, so every branch can be rendered.
+  ctScanImage: 'data:image/png;base64,iVBORw0KGgo=',
+};
+
+function renderResult(prediction: ModelPrediction, inputChanges: Partial<PredictStrokeTypeInput> = {}) {
+  const input = { ...predictionInput, ...inputChanges };
+  const result = finalizePrediction(input, assessClinicalFindings(input), prediction);
+
+  render(
+    <ResultsDisplay
+      result={{ ...result, milestones: {}, input, assessedAt: new Date().toISOString() }}
+      onMilestonesChange={vi.fn()}
+      onDosingChange={vi.fn()}
+      onBloodPressureReadingsChange={vi.fn()}
+      onObservationsChange={vi.fn()}
+      onReferralChange={vi.fn()}
+      onReset={vi.fn()}
+    />
+  );
+  return result;
+}
+
+afterEach(cleanup);
+
+describe('ResultsDisplay', () => {
+  it('shows an eligible ischemic stroke with its action plan and the dosing calculator', () => {
+    const result = renderResult({ strokeType: 'Ischemic', confidence: 0.9 });
+
+    expect(screen.getByText('Tenecteplase Eligible')).toBeInTheDocument();
+    expect(screen.getByText(result.actionPlan!.title)).toBeInTheDocument();
+    expect(screen.getByText('Thrombolytic Dosing Calculator')).toBeInTheDocument();
+    expect(screen.queryByText(/^Not eligible:/)).not.toBeInTheDocument();
+  });
+
+  it('explains why an ischemic stroke is not eligible and hides the dosing calculator', () => {
+    renderResult({ strokeType: 'Ischemic', confidence: 0.9 }, { anticoagulantUse: true });
+
+    expect(screen.getByText('Tenecteplase Not Eligible')).toBeInTheDocument();
+    expect(screen.getByText(/^Not eligible:.*anticoagulant/)).toBeInTheDocument();
+    expect(screen.queryByText('Thrombolytic Dosing Calculator')).not.toBeInTheDocument();
+  });
+
+  it('shows thrombolysis as contraindicated for a hemorrhagic stroke', () => {
+    const result = renderResult({ strokeType: 'Hemorrhagic', confidence: 0.9 });
+
+    expect(screen.getByText('Tenecteplase Contraindicated')).toBeInTheDocument();
+    expect(screen.getByText(result.actionPlan!.title)).toBeInTheDocument();
+    expect(screen.queryByText('Thrombolytic Dosing Calculator')).not.toBeInTheDocument();
+  });
+
+  it('shows an uncertain stroke as not eligible', () => {
+    const result = renderResult({ strokeType: 'Uncertain', confidence: 0.5 });
+
+    expect(screen.getByText('Tenecteplase Not Eligible')).toBeInTheDocument();
+    expect(screen.getByText(result.actionPlan!.title)).toBeInTheDocument();
+    expect(screen.getByText('Uncertain')).toBeInTheDocument();
+  });
+
+  it('shows the clinical score breakdowns when there is no CT scan', () => {
+    renderResult({ strokeType: 'Ischemic', confidence: 0.9 }, { ctScanImage: undefined });
+
+    expect(screen.getByText('Siriraj Stroke Score Breakdown')).toBeInTheDocument();
+    expect(screen.getByText('Guy\'s Hospital Score Breakdown')).toBeInTheDocument();
+  });
+});
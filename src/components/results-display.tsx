@@ -1,20 +1,49 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Stethoscope, BarChart3, CheckCircle2, XCircle, Share2, RefreshCw, Calculator } from 'lucide-react';
-import type { PredictionResult } from '@/types';
+import React from 'react';
+import { Stethoscope, BarChart3, CheckCircle2, XCircle, Share2, RefreshCw, ListChecks, AlertTriangle, ClipboardList, Hospital, WifiOff, ShieldAlert } from 'lucide-react';
+import type { PredictionResult, StoredSymptomValues } from '@/types';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from './ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
+import { ScoreBreakdown } from '@/components/score-breakdown';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { SIRIRAJ_THRESHOLD } from '@/lib/scores/siriraj';
+import { GUYS_HOSPITAL_HEMORRHAGE_THRESHOLD, GUYS_HOSPITAL_INFARCTION_THRESHOLD } from '@/lib/scores/guys-hospital';
+import { NIHSS_MAX_SCORE, nihssSeverity } from '@/lib/scores/nihss';
+import { TimerPanel } from '@/components/timer-panel';
+import { ActionPlanChecklist } from '@/components/action-plan-checklist';
+import { ThrombolyticDosingCalculator } from '@/components/thrombolytic-dosing-calculator';
+import { protocolThrombolytics, resolveProtocol } from '@/lib/protocols';
+import { formatThrombolyticDose, type ThrombolyticDose } from '@/lib/dosing';
+import { BloodPressurePanel } from '@/components/blood-pressure-panel';
+import type { BloodPressureReading } from '@/lib/blood-pressure';
+import { ObservationLog } from '@/components/observation-log';
+import { observedBloodPressures, type Observation } from '@/lib/observations';
+import type { Milestones } from '@/lib/milestones';
+import { ReferralPanel } from '@/components/referral-panel';
+import type { ReferralDetails } from '@/lib/referral';
 
 interface ResultsDisplayProps {
-  result: PredictionResult & { uploadedImage?: string };
+  result: PredictionResult & {
+    uploadedImage?: string;
+    milestones: Milestones;
+    dosing?: ThrombolyticDose;
+    bloodPressureReadings?: BloodPressureReading[];
+    observations?: Observation[];
+    input: StoredSymptomValues;
+    assessedAt: string;
+    referral?: ReferralDetails;
+  };
+  onMilestonesChange: (milestones: Milestones) => void;
+  onDosingChange: (dosing: ThrombolyticDose) => void;
+  onBloodPressureReadingsChange: (readings: BloodPressureReading[]) => void;
+  onObservationsChange: (observations: Observation[]) => void;
+  onReferralChange: (referral: ReferralDetails) => void;
   onReset: () => void;
 }
 
@@ -28,79 +57,78 @@ const ResultItem: React.FC<{ icon: React.ReactNode; label: string; value: string
   </div>
 );
 
-const TenecteplaseDosingCalculator = () => {
-  const [weight, setWeight] = useState<string>('');
-  const [dose, setDose] = useState<number | null>(null);
-  const { toast } = useToast();
-
-  const handleCalculate = () => {
-    const weightKg = parseFloat(weight);
-    if (isNaN(weightKg) || weightKg <= 0) {
-      toast({
-        variant: 'destructive',
-        title: 'Invalid Weight',
-        description: 'Please enter a valid patient weight in kilograms.',
-      });
-      setDose(null);
-      return;
-    }
-
-    const totalDose = Math.min(weightKg * 0.25, 25);
-    setDose(parseFloat(totalDose.toFixed(2)));
-  };
-
-  return (
-    <Card className="mt-6 bg-secondary/50">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2 text-xl">
-          <Calculator className="h-6 w-6 text-primary" />
-          Tenecteplase Dosing Calculator
-        </CardTitle>
-        <CardDescription>
-          For Ischemic Stroke. Dose is a single IV bolus: 0.25 mg/kg (max 25 mg).
-        </CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="flex items-end gap-2">
-          <div className="flex-grow">
-            <Label htmlFor="weight">Patient Weight (kg)</Label>
-            <Input
-              id="weight"
-              type="number"
-              placeholder="e.g., 70"
-              value={weight}
-              onChange={(e) => setWeight(e.target.value)}
-              onKeyDown={(e) => { if (e.key === 'Enter') handleCalculate(); }}
-            />
-          </div>
-          <Button onClick={handleCalculate}>Calculate</Button>
-        </div>
-        {dose !== null && (
-          <div className="space-y-2 rounded-lg border bg-background p-4">
-            <h4 className="font-semibold text-center text-foreground">Calculated Dose (mg)</h4>
-            <div className="text-center">
-              <p className="text-sm text-muted-foreground">Total IV Bolus Dose</p>
-              <p className="text-4xl font-bold text-destructive">{dose}</p>
-            </div>
+const EligibilityChecklist: React.FC<{ criteria: PredictionResult['eligibilityCriteria'] }> = ({ criteria }) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <ListChecks className="h-5 w-5 text-primary" />
+      <p className="text-sm font-medium text-muted-foreground">Tenecteplase Eligibility Criteria</p>
+    </div>
+    <ul className="space-y-2">
+      {criteria.map((criterion) => (
+        <li key={criterion.id} className="flex items-start gap-2">
+          {criterion.passed ? (
+            <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+          ) : criterion.kind === 'relative' ? (
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-500" />
+          ) : (
+            <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+          )}
+          <div>
+            <p className="text-sm font-medium text-foreground">{criterion.label}</p>
+            <p className="text-xs text-muted-foreground">{criterion.detail}</p>
           </div>
-        )}
-      </CardContent>
-    </Card>
-  );
-};
-
+        </li>
+      ))}
+    </ul>
+  </div>
+);
 
-export function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
+export function ResultsDisplay({
+  result,
+  onMilestonesChange,
+  onDosingChange,
+  onBloodPressureReadingsChange,
+  onObservationsChange,
+  onReferralChange,
+  onReset,
+}: ResultsDisplayProps) {
   const { toast } = useToast();
   const confidencePercent = Math.round(result.confidence * 100);
   const isHemorrhagic = result.strokeType === 'Hemorrhagic';
+  const protocol = resolveProtocol(result.protocolId);
+  const failedCriteria = result.eligibilityCriteria.filter(
+    (criterion) => criterion.kind !== 'relative' && !criterion.passed
+  );
 
   const getResultText = () => {
-    return `NeuroAssist Stroke Diagnosis Summary:\n
-- Predicted Stroke Type: ${result.strokeType}
-- Confidence: ${confidencePercent}%
-- Tenecteplase Eligible: ${result.tenecteplaseEligible ? 'Yes' : 'No'}
-- Recommended Action: ${result.action}`;
+    const lines = [
+      `- Predicted Stroke Type: ${result.strokeType}${result.offline ? ' (offline triage)' : ''}`,
+      `- Confidence: ${confidencePercent}% (calibrated)`,
+    ];
+    if (result.siriraj) {
+      lines.push(`- Siriraj Score: ${result.siriraj.score.toFixed(2)} (${result.siriraj.interpretation})`);
+    }
+    if (result.guysHospital) {
+      lines.push(`- Guy's Hospital Score: ${result.guysHospital.score.toFixed(2)} (${result.guysHospital.interpretation})`);
+    }
+    if (result.lastKnownWell) {
+      lines.push(`- Last Known Well: ${new Date(result.lastKnownWell).toLocaleString()}`);
+    }
+    lines.push(`- RACE Score: ${result.raceScore}${result.lvoSuspected ? ' (LVO suspected)' : ''}`);
+    if (result.nihssTotal !== undefined) {
+      lines.push(`- NIHSS: ${result.nihssTotal} (${nihssSeverity(result.nihssTotal)})`);
+    }
+    lines.push(
+      `- Tenecteplase Eligible: ${result.tenecteplaseEligible ? 'Yes' : 'No'}${
+        failedCriteria.length > 0 ? ` (${failedCriteria.map((criterion) => criterion.label).join('; ')} not met)` : ''
+      }`,
+      `- Recommended Action: ${result.action}`
+    );
+    if (result.dosing) {
+      lines.push(`- Thrombolytic Dose: ${formatThrombolyticDose(result.dosing)}`);
+    }
+    result.warnings?.forEach((warning) => lines.push(`- Warning: ${warning.message}`));
+    return `NeuroAssist Stroke Diagnosis Summary:\n\n${lines.join('\n')}`;
   };
 
   const handleShare = async () => {
@@ -137,6 +165,17 @@ export function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
           <CardDescription>AI-powered diagnosis based on patient data.</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {result.offline && (
+            <Alert variant="destructive">
+              <WifiOff className="h-4 w-4" />
+              <AlertTitle>Offline Result</AlertTitle>
+              <AlertDescription>
+                Generated on this device without the AI service, from clinical scores only. Any CT image was not
+                analysed. The case will be re-analysed automatically when the connection returns.
+              </AlertDescription>
+            </Alert>
+          )}
+
             
           {result.uploadedImage && (
             <div className="bg-muted/50 rounded-lg p-2 flex justify-center">
@@ -149,6 +188,31 @@ export function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
             </div>
           )}
 
+          {result.warnings && result.warnings.length > 0 && (
+            <Alert className="border-amber-500/50 bg-amber-50 [&>svg]:text-amber-500">
+              <ShieldAlert className="h-4 w-4" />
+              <AlertTitle>Safety Check Warnings</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 space-y-1">
+                  {result.warnings.map((warning) => (
+                    <li key={warning.code}>{warning.message}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result.lvoSuspected && !isHemorrhagic && (
+            <Alert className="border-primary/50 bg-primary/10 [&>svg]:text-primary">
+              <Hospital className="h-4 w-4" />
+              <AlertTitle>Consider Thrombectomy-Capable Centre</AlertTitle>
+              <AlertDescription>
+                RACE score of {result.raceScore} suggests a large vessel occlusion. Divert to or arrange transfer to a
+                centre that can perform endovascular thrombectomy.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className={cn(
              "p-4 rounded-lg border space-y-2",
              isHemorrhagic ? "bg-destructive/10 border-destructive/30" : "bg-accent/20 border-accent/30"
@@ -167,7 +231,16 @@ export function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
                     </Badge>
                 )}
              </div>
-             <p className="text-base text-foreground whitespace-pre-wrap leading-relaxed">{result.action}</p>
+             {failedCriteria.length > 0 && (
+                <p className="text-sm text-destructive">
+                    Not eligible: {failedCriteria.map((criterion) => criterion.detail).join(' ')}
+                </p>
+             )}
+             {result.actionPlan ? (
+                <ActionPlanChecklist plan={result.actionPlan} />
+             ) : (
+                <p className="text-base text-foreground whitespace-pre-wrap leading-relaxed">{result.action}</p>
+             )}
           </div>
           
           <Separator />
@@ -183,11 +256,107 @@ export function ResultsDisplay({ result, onReset }: ResultsDisplayProps) {
                    <p className="text-lg font-semibold">{confidencePercent}%</p>
                    <Progress value={confidencePercent} className="w-full" />
                 </div>
+                {result.rawConfidence !== undefined && (
+                  <p className="text-xs text-muted-foreground">
+                    Calibrated ({result.calibrationVersion}); model stated {Math.round(result.rawConfidence * 100)}%
+                  </p>
+                )}
               </div>
             </div>
+
+            {result.nihssTotal !== undefined && (
+              <ResultItem
+                icon={<ClipboardList className="h-6 w-6 text-primary" />}
+                label="NIHSS Total"
+                value={`${result.nihssTotal} / ${NIHSS_MAX_SCORE} (${nihssSeverity(result.nihssTotal)})`}
+              />
+            )}
           </div>
+
+          <Separator />
+
+          <EligibilityChecklist criteria={result.eligibilityCriteria} />
+
+          {result.clinicalScoresAgree === false && (
+            <Alert className="border-amber-500/50 bg-amber-50 [&>svg]:text-amber-500">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Clinical Scores Disagree</AlertTitle>
+              <AlertDescription>
+                The Siriraj and Guy&apos;s Hospital scores point to different stroke types, so the diagnosis has been
+                downgraded to Uncertain. Urgent imaging is needed to clarify.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {result.siriraj && (
+            <>
+              <Separator />
+              <ScoreBreakdown
+                title="Siriraj Stroke Score Breakdown"
+                score={result.siriraj}
+                legend={`Score > +${SIRIRAJ_THRESHOLD} suggests hemorrhage, < -${SIRIRAJ_THRESHOLD} suggests infarction; between -${SIRIRAJ_THRESHOLD} and +${SIRIRAJ_THRESHOLD} is indeterminate.`}
+              />
+            </>
+          )}
+
+          {result.guysHospital && (
+            <>
+              <Separator />
+              <ScoreBreakdown
+                title="Guy's Hospital Score Breakdown"
+                score={result.guysHospital}
+                legend={`Score > ${GUYS_HOSPITAL_HEMORRHAGE_THRESHOLD} suggests hemorrhage, < ${GUYS_HOSPITAL_INFARCTION_THRESHOLD} suggests infarction; in between is indeterminate.`}
+              />
+            </>
+          )}
           
-          {result.tenecteplaseEligible && <TenecteplaseDosingCalculator />}
+          {result.tenecteplaseEligible && (
+            <ThrombolyticDosingCalculator
+              agents={protocolThrombolytics(protocol)}
+              dose={result.dosing}
+              onCalculate={onDosingChange}
+            />
+          )}
+
+          <BloodPressurePanel
+            protocol={protocol}
+            strokeType={result.strokeType}
+            tenecteplaseEligible={result.tenecteplaseEligible}
+            lysisGiven={result.milestones.needle !== undefined}
+            readings={result.bloodPressureReadings ?? []}
+            observedReadings={observedBloodPressures(result.observations ?? [])}
+            onReadingsChange={onBloodPressureReadingsChange}
+          />
+
+          <ObservationLog
+            protocol={protocol}
+            scheduleStartsAt={result.milestones.needle}
+            baselineNihss={result.nihssTotal}
+            observations={result.observations ?? []}
+            onObservationsChange={onObservationsChange}
+          />
+
+          <TimerPanel
+            protocol={protocol}
+            lastKnownWell={result.lastKnownWell}
+            treatmentWindowEndsAt={isHemorrhagic ? undefined : result.treatmentWindowEndsAt}
+            tenecteplaseEligible={result.tenecteplaseEligible}
+            milestones={result.milestones}
+            onMilestonesChange={onMilestonesChange}
+          />
+
+          <ReferralPanel
+            details={result.referral}
+            onDetailsChange={onReferralChange}
+            result={result}
+            input={result.input}
+            assessedAt={result.assessedAt}
+            image={result.uploadedImage}
+            milestones={result.milestones}
+            dosing={result.dosing}
+            bloodPressureReadings={result.bloodPressureReadings}
+            observations={result.observations}
+          />
 
         </CardContent>
         <CardFooter className="flex flex-col sm:flex-row gap-2">
@@ -0,0 +1,84 @@
+'use client';
+
+import type React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Calculator } from 'lucide-react';
+import type { StrokeType } from '@/lib/eligibility';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface ScoreBreakdownProps {
+  title: string;
+  score: {
+    score: number;
+    interpretation: StrokeType;
+    components: { id: string; label: string; contribution: number }[];
+  };
+  legend: React.ReactNode;
+}
+
+const chartConfig = {
+  contribution: {
+    label: 'Contribution',
+  },
+} satisfies ChartConfig;
+
+const formatContribution = (value: number) => (value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2));
+
+export function ScoreBreakdown({ title, score, legend }: ScoreBreakdownProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Calculator className="h-5 w-5 text-primary" />
+          <p className="text-sm font-medium text-muted-foreground">{title}</p>
+        </div>
+        <p className="text-sm font-semibold">
+          {score.score.toFixed(2)} ({score.interpretation})
+        </p>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <BarChart data={score.components} layout="vertical" margin={{ left: 24, right: 16 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+          <ReferenceLine x={0} stroke="hsl(var(--border))" />
+          <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel={false} />} />
+          <Bar dataKey="contribution" radius={4}>
+            {score.components.map((component) => (
+              <Cell
+                key={component.id}
+                fill={component.contribution > 0 ? 'hsl(var(--destructive))' : 'hsl(var(--primary))'}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Component</TableHead>
+            <TableHead className="text-right">Contribution</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {score.components.map((component) => (
+            <TableRow key={component.id}>
+              <TableCell>{component.label}</TableCell>
+              <TableCell className="text-right font-mono">{formatContribution(component.contribution)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total</TableCell>
+            <TableCell className="text-right font-mono">{formatContribution(score.score)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">{legend}</p>
+    </div>
+  );
+}
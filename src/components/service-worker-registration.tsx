@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Registers the service worker that caches the app for offline use. Skipped in development,
+ * where cached build assets would fight hot reloading.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+      return;
+    }
+    navigator.serviceWorker
+      .register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) => {
+        // Scripts, styles and fonts loaded before the worker took control were not cached
+        // by it, so hand them over; otherwise the form would not open offline until a reload.
+        const urls = performance.getEntriesByType('resource').map((entry) => entry.name);
+        registration.active?.postMessage({ type: 'cache-urls', urls });
+      })
+      .catch((error) => console.error('Service worker registration failed:', error));
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SymptomForm } from '@/components/symptom-form';
+import { NIHSS_STEPS } from '@/lib/scores/nihss';
+
+afterEach(cleanup);
+
+describe('SymptomForm', () => {
+  it('asks for the last known well time unless the onset is marked unknown', async () => {
+    const onSubmit = vi.fn();
+    render(<SymptomForm onSubmit={onSubmit} isLoading={false} />);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Diagnose' }));
+
+    expect(
+      await screen.findByText('Please enter the last known well time, or mark the onset as unknown.')
+    ).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('submits the coerced values once the form is valid', async () => {
+    const onSubmit = vi.fn();
+    render(<SymptomForm onSubmit={onSubmit} isLoading={false} />);
+
+    await userEvent.click(screen.getByLabelText('Wake-up Stroke / Unknown Onset'));
+    const diastolic = screen.getByLabelText('Diastolic Blood Pressure (mmHg)');
+    await userEvent.clear(diastolic);
+    await userEvent.type(diastolic, '95');
+    await userEvent.click(screen.getByRole('button', { name: 'Diagnose' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0]).toMatchObject({
+      onsetUnknown: true,
+      diastolicBloodPressure: 95,
+      armWeakness: 'None',
+      levelOfConsciousness: 'Conscious',
+    });
+  });
+
+  it('rejects a missing diastolic BP', async () => {
+    const onSubmit = vi.fn();
+    render(<SymptomForm onSubmit={onSubmit} isLoading={false} />);
+
+    await userEvent.click(screen.getByLabelText('Wake-up Stroke / Unknown Onset'));
+    await userEvent.clear(screen.getByLabelText('Diastolic Blood Pressure (mmHg)'));
+    await userEvent.click(screen.getByRole('button', { name: 'Diagnose' }));
+
+    expect(await screen.findByText('Please enter a valid number.')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('does not submit a partly completed NIHSS', async () => {
+    const onSubmit = vi.fn();
+    render(<SymptomForm onSubmit={onSubmit} isLoading={false} />);
+
+    await userEvent.click(screen.getByLabelText('Wake-up Stroke / Unknown Onset'));
+    await userEvent.click(screen.getByRole('button', { name: 'Start NIHSS Assessment' }));
+    expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+
+    await userEvent.click(screen.getByLabelText(/Alert, keenly responsive/));
+    await userEvent.click(screen.getByLabelText(/Answers both questions correctly/));
+    await userEvent.click(screen.getByLabelText(/Performs both tasks correctly/));
+    expect(screen.getByText('0 / 42 (incomplete)')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Diagnose' }));
+
+    expect(await screen.findByText(/Score every item before submitting/)).toHaveTextContent(/Not yet scored: 2, 3, 4,/);
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('submits the NIHSS once every item is scored', async () => {
+    const onSubmit = vi.fn();
+    render(<SymptomForm onSubmit={onSubmit} isLoading={false} />);
+
+    await userEvent.click(screen.getByLabelText('Wake-up Stroke / Unknown Onset'));
+    await userEvent.click(screen.getByRole('button', { name: 'Start NIHSS Assessment' }));
+    for (let step = 0; step < NIHSS_STEPS.length; step++) {
+      for (const item of NIHSS_STEPS[step].items) {
+        await userEvent.click(document.getElementById(`nihss-${item.id}-${item.id === 'loc' ? 1 : 0}`)!);
+      }
+      if (step < NIHSS_STEPS.length - 1) {
+        await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+      }
+    }
+    expect(screen.getByText('1 / 42 (Minor)')).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Diagnose' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0].nihss).toMatchObject({ loc: 1, extinction: 0 });
+  });
+
+  it('disables submission while a diagnosis is running', () => {
+    render(<SymptomForm onSubmit={vi.fn()} isLoading />);
+
+    expect(screen.getByRole('button', { name: /Analyzing/ })).toBeDisabled();
+  });
+});
@@ -5,6 +5,11 @@ import { useForm } from 'react-hook-form';
 import { Loader2 } from 'lucide-react';
 import type { SymptomFormValues } from '@/types';
 import { symptomSchema } from '@/types';
+import { computeSiriraj } from '@/lib/scores/siriraj';
+import { computeGuysHospital } from '@/lib/scores/guys-hospital';
+import { NihssWizard } from '@/components/nihss-wizard';
+import { DateTimePicker } from '@/components/date-time-picker';
+import { EMPTY_RACE, RACE_ITEMS, RACE_LVO_THRESHOLD, computeRace } from '@/lib/scores/race';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -37,10 +42,13 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
     resolver: zodResolver(symptomSchema),
     defaultValues: {
       ctScanImage: undefined,
-      timeSinceOnset: 0,
+      lastKnownWell: undefined,
+      onsetUnknown: false,
       faceDroop: false,
       speechSlurred: false,
       armWeakness: 'None',
+      nihss: undefined,
+      race: { ...EMPTY_RACE },
       systolicBloodPressure: '',
       historyHypertension: false,
       historyDiabetes: false,
@@ -49,9 +57,79 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
       vomiting: false,
       headache: false,
       diastolicBloodPressure: 0,
+      lossOfConsciousnessAtOnset: false,
+      neckStiffness: false,
+      bilateralExtensorPlantars: false,
+      historyAnginaOrClaudication: false,
+      previousStrokeOrTia: false,
+      heartDisease: false,
+      anticoagulantUse: false,
+      recentSurgery: false,
+      priorIntracranialHemorrhage: false,
+      recentStrokeOrHeadTrauma: false,
+      plateletCount: '',
+      bloodGlucose: '',
+      inr: '',
     },
   });
 
+  const [
+    levelOfConsciousness,
+    vomiting,
+    headache,
+    diastolicBloodPressure,
+    historyHypertension,
+    historyDiabetes,
+    lossOfConsciousnessAtOnset,
+    neckStiffness,
+    bilateralExtensorPlantars,
+    historyAnginaOrClaudication,
+    previousStrokeOrTia,
+    heartDisease,
+  ] = form.watch([
+    'levelOfConsciousness',
+    'vomiting',
+    'headache',
+    'diastolicBloodPressure',
+    'historyHypertension',
+    'historyDiabetes',
+    'lossOfConsciousnessAtOnset',
+    'neckStiffness',
+    'bilateralExtensorPlantars',
+    'historyAnginaOrClaudication',
+    'previousStrokeOrTia',
+    'heartDisease',
+  ]);
+  const onsetUnknown = form.watch('onsetUnknown');
+  const racePreview = computeRace(form.watch('race'), form.watch('armWeakness'));
+  const hasDiastolic = Number.isFinite(diastolicBloodPressure);
+  const sirirajPreview = hasDiastolic
+    ? computeSiriraj({
+        levelOfConsciousness,
+        vomiting,
+        headache,
+        diastolicBloodPressure,
+        historyDiabetes,
+        historyAnginaOrClaudication,
+      })
+    : null;
+  const guysHospitalPreview = hasDiastolic
+    ? computeGuysHospital({
+        levelOfConsciousness,
+        vomiting,
+        headache,
+        diastolicBloodPressure,
+        historyHypertension,
+        historyDiabetes,
+        lossOfConsciousnessAtOnset,
+        neckStiffness,
+        bilateralExtensorPlantars,
+        historyAnginaOrClaudication,
+        previousStrokeOrTia,
+        heartDisease,
+      })
+    : null;
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
@@ -89,17 +167,32 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="timeSinceOnset"
+                  name="lastKnownWell"
                   render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Time Since Symptom Onset (minutes)</FormLabel>
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>Last Known Well</FormLabel>
                       <FormControl>
-                        <Input type="number" placeholder="e.g., 60" {...field} onChange={e => field.onChange(e.target.valueAsNumber)} />
+                        <DateTimePicker value={field.value} onChange={field.onChange} disabled={onsetUnknown} />
                       </FormControl>
+                      <FormDescription>The date and clock time the patient was last seen at their baseline.</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="onsetUnknown"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Wake-up Stroke / Unknown Onset</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={form.control}
                   name="systolicBloodPressure"
@@ -169,6 +262,57 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
               </div>
             </div>
 
+            <Separator />
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">NIH Stroke Scale</h3>
+              <FormDescription>Optional. Severity guides transfer and thrombectomy decisions.</FormDescription>
+              <NihssWizard />
+            </div>
+
+            <Separator />
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Large Vessel Occlusion Screen (RACE)</h3>
+              <FormDescription>
+                A score of {RACE_LVO_THRESHOLD} or more suggests a large vessel occlusion that may need thrombectomy.
+              </FormDescription>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {RACE_ITEMS.map((item) => (
+                  <FormField
+                    key={item.id}
+                    control={form.control}
+                    name={`race.${item.id}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{item.label}</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {item.options.map((option) => (
+                              <SelectItem key={option.score} value={String(option.score)}>
+                                {option.score} – {option.description}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>{item.help}</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <div className="flex items-center justify-between rounded-lg border bg-muted/50 p-3">
+                <p className="text-sm font-medium text-muted-foreground">RACE Score</p>
+                <p className="text-sm font-semibold">
+                  {racePreview.score} ({racePreview.lvoSuspected ? 'LVO suspected' : 'LVO not suspected'})
+                </p>
+              </div>
+            </div>
+
             <Separator />
             <div className="space-y-4">
               <h3 className="text-lg font-medium">Siriraj Stroke Score Inputs</h3>
@@ -244,7 +388,7 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
 
             <Separator />
             <div className="space-y-4">
-              <h3 className="text-lg font-medium">Patient History (Atheroma Markers)</h3>
+              <h3 className="text-lg font-medium">Patient History</h3>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <FormField
                   control={form.control}
@@ -290,6 +434,218 @@ export function SymptomForm({ onSubmit, isLoading }: SymptomFormProps) {
                 />
               </div>
             </div>
+            <Separator />
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Guy&apos;s Hospital Score Inputs</h3>
+              <FormDescription>Used with the Siriraj Stroke Score; disagreement between the two flags the diagnosis as uncertain.</FormDescription>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="lossOfConsciousnessAtOnset"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Loss of Consciousness at Onset</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="neckStiffness"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Neck Stiffness</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bilateralExtensorPlantars"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Both Plantars Extensor</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="historyAnginaOrClaudication"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Angina or Claudication</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="previousStrokeOrTia"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Previous Stroke or TIA</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="heartDisease"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Heart Disease</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+            {sirirajPreview && guysHospitalPreview && (
+              <div className="space-y-2 rounded-lg border bg-muted/50 p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-muted-foreground">Siriraj Stroke Score</p>
+                  <p className="text-sm font-semibold">
+                    {sirirajPreview.score.toFixed(2)} ({sirirajPreview.interpretation})
+                  </p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium text-muted-foreground">Guy&apos;s Hospital Score</p>
+                  <p className="text-sm font-semibold">
+                    {guysHospitalPreview.score.toFixed(2)} ({guysHospitalPreview.interpretation})
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+            <div className="space-y-4">
+              <h3 className="text-lg font-medium">Contraindications</h3>
+              <FormDescription>Any absolute contraindication rules out Tenecteplase. Leave lab values blank if not yet available.</FormDescription>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="anticoagulantUse"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Current Anticoagulant Use</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="recentSurgery"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Major Surgery (last 14 days)</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="priorIntracranialHemorrhage"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Prior Intracranial Hemorrhage</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="recentStrokeOrHeadTrauma"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Stroke or Head Trauma (last 3 months)</FormLabel>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-2">
+                <FormField
+                  control={form.control}
+                  name="plateletCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Platelets (x10³/µL)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 250" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bloodGlucose"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Glucose (mg/dL)</FormLabel>
+                      <FormControl>
+                        <Input type="number" placeholder="e.g., 110" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="inr"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>INR</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.1" placeholder="e.g., 1.0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
           </CardContent>
           <CardFooter>
             <Button type="submit" disabled={isLoading} className="w-full">
@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Calculator, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { DoseCard } from '@/components/dose-card';
+import { useToast } from '@/hooks/use-toast';
+import {
+  WEIGHT_UNITS,
+  calculateThrombolyticDose,
+  formatDoseWeight,
+  toKilograms,
+  type DoseParameters,
+  type ThrombolyticAgent,
+  type ThrombolyticDose,
+  type WeightUnit,
+} from '@/lib/dosing';
+import { printElement } from '@/lib/print';
+
+interface ThrombolyticDosingCalculatorProps {
+  /** The agents the protocol allows, first-line first. */
+  agents: DoseParameters[];
+  /** The dose last calculated for this case, if any. */
+  dose?: ThrombolyticDose;
+  onCalculate: (dose: ThrombolyticDose) => void;
+}
+
+const DoseFigure: React.FC<{ label: string; mg: number; ml: number; emphasis?: boolean }> = ({ label, mg, ml, emphasis }) => (
+  <div className="text-center">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className={emphasis ? 'text-4xl font-bold text-destructive' : 'text-2xl font-semibold text-foreground'}>
+      {mg} mg
+    </p>
+    <p className="text-sm font-medium text-foreground">{ml} mL</p>
+  </div>
+);
+
+export function ThrombolyticDosingCalculator({ agents, dose, onCalculate }: ThrombolyticDosingCalculatorProps) {
+  const [agent, setAgent] = useState<ThrombolyticAgent>(dose?.agent ?? agents[0].agent);
+  const [weight, setWeight] = useState<string>(dose ? String(dose.enteredWeight?.value ?? dose.weightKg) : '');
+  const [unit, setUnit] = useState<WeightUnit>(dose?.enteredWeight?.unit ?? 'kg');
+  const [estimated, setEstimated] = useState(dose?.enteredWeight?.estimated ?? false);
+  const doseCardRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const parameters = agents.find((candidate) => candidate.agent === agent) ?? agents[0];
+  const { drug, mgPerKg, maxDoseMg, administration, vial, weightBands } = parameters;
+  // Only show the dose while it matches the agent selected.
+  const shownDose = dose?.agent === parameters.agent ? dose : undefined;
+
+  const handleCalculate = () => {
+    const value = parseFloat(weight);
+    if (isNaN(value) || value <= 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid Weight',
+        description: `Please enter a valid patient weight in ${unit === 'kg' ? 'kilograms' : 'pounds'}.`,
+      });
+      return;
+    }
+    onCalculate(calculateThrombolyticDose(parameters, { value, unit, estimated }));
+  };
+
+  const enteredValue = parseFloat(weight);
+
+  return (
+    <Card className="mt-6 bg-secondary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Calculator className="h-6 w-6 text-primary" />
+          Thrombolytic Dosing Calculator
+        </CardTitle>
+        <CardDescription>
+          For Ischemic Stroke. {drug} is given as a {administration}: {mgPerKg} mg/kg (max {maxDoseMg} mg)
+          {weightBands ? ', by weight band' : ''}, from {vial.mg} mg / {vial.ml} mL vials.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {agents.length > 1 && (
+          <RadioGroup
+            value={agent}
+            onValueChange={(value) => setAgent(value as ThrombolyticAgent)}
+            className="flex flex-wrap gap-4"
+          >
+            {agents.map((candidate) => (
+              <div key={candidate.agent} className="flex items-center gap-2">
+                <RadioGroupItem value={candidate.agent} id={`agent-${candidate.agent}`} />
+                <Label htmlFor={`agent-${candidate.agent}`} className="font-normal">
+                  {candidate.drug}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        )}
+        <div className="flex items-end gap-2">
+          <div className="flex-grow">
+            <Label htmlFor="weight">Patient Weight ({unit})</Label>
+            <Input
+              id="weight"
+              type="number"
+              placeholder={unit === 'kg' ? 'e.g., 70' : 'e.g., 155'}
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCalculate(); }}
+            />
+          </div>
+          <RadioGroup
+            value={unit}
+            onValueChange={(value) => setUnit(value as WeightUnit)}
+            className="flex h-10 items-center gap-3"
+          >
+            {WEIGHT_UNITS.map((option) => (
+              <div key={option} className="flex items-center gap-1">
+                <RadioGroupItem value={option} id={`weight-unit-${option}`} />
+                <Label htmlFor={`weight-unit-${option}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+          <Button onClick={handleCalculate}>Calculate</Button>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="weight-estimated"
+              checked={estimated}
+              onCheckedChange={(checked) => setEstimated(checked === true)}
+            />
+            <Label htmlFor="weight-estimated" className="font-normal">
+              Estimated weight
+            </Label>
+          </div>
+          {unit === 'lb' && enteredValue > 0 && (
+            <p className="text-sm font-medium text-foreground">= {toKilograms({ value: enteredValue, unit })} kg</p>
+          )}
+        </div>
+        {shownDose && (
+          <div className="space-y-4 rounded-lg border bg-background p-4">
+            <h4 className="font-semibold text-center text-foreground">
+              {shownDose.drug} for {formatDoseWeight(shownDose)}
+            </h4>
+            {shownDose.weightBand && (
+              <p className="text-center text-sm text-muted-foreground">Weight band {shownDose.weightBand}</p>
+            )}
+            <DoseFigure label="Total Dose" mg={shownDose.totalDoseMg} ml={shownDose.totalVolumeMl} emphasis />
+            {shownDose.capped && (
+              <p className="text-center text-sm text-muted-foreground">Capped at the maximum dose of {maxDoseMg} mg.</p>
+            )}
+            {shownDose.infusion ? (
+              <div className="grid grid-cols-2 gap-4">
+                <DoseFigure label="IV Bolus" mg={shownDose.bolusDoseMg} ml={shownDose.bolusVolumeMl} />
+                <DoseFigure
+                  label={`Infusion over ${shownDose.infusion.minutes} min`}
+                  mg={shownDose.infusion.doseMg}
+                  ml={shownDose.infusion.volumeMl}
+                />
+                <p className="col-span-2 text-center text-sm font-medium text-foreground">
+                  Infusion rate: {shownDose.infusion.rateMlPerHour} mL/h ({shownDose.infusion.rateMgPerHour} mg/h)
+                </p>
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">Given as a single IV bolus.</p>
+            )}
+            <p className="text-center text-xs text-muted-foreground">
+              Reconstitute {shownDose.vialsNeeded} × {vial.mg} mg vial{shownDose.vialsNeeded === 1 ? '' : 's'} at{' '}
+              {vial.mg / vial.ml} mg/mL. The chosen agent and dose are saved with the case.
+            </p>
+            <Button variant="outline" className="w-full" onClick={() => doseCardRef.current && printElement(doseCardRef.current)}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print Dose Card
+            </Button>
+            <div ref={doseCardRef} className="hidden">
+              <DoseCard parameters={parameters} dose={shownDose} />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import type React from 'react';
+import { format, setHours, setMinutes, subDays } from 'date-fns';
+import { AlarmClock, CheckCircle2, Clock, Download, X } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import {
+  MILESTONES,
+  doorToMilestoneMinutes,
+  formatDuration,
+  milestonesToCsv,
+  minutesBetween,
+  type MilestoneId,
+  type Milestones,
+} from '@/lib/milestones';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { Protocol } from '@/lib/protocols';
+import { TreatmentWindowCountdown } from '@/components/treatment-window-countdown';
+import { cn } from '@/lib/utils';
+
+interface TimerPanelProps {
+  /** The protocol the result followed, whose treatment window is counted down. */
+  protocol: Protocol;
+  lastKnownWell?: string;
+  treatmentWindowEndsAt?: string;
+  tenecteplaseEligible: boolean;
+  milestones: Milestones;
+  onMilestonesChange: (milestones: Milestones) => void;
+}
+
+/** Warn that the needle is still pending when the window has less than this many minutes left. */
+const NEEDLE_WARNING_MINUTES = 30;
+
+/** Interprets a clock time as the most recent occurrence of it, so times just before midnight work. */
+const toRecentTimestamp = (time: string, now: Date) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const candidate = setMinutes(setHours(now, hours), minutes);
+  return (candidate > now ? subDays(candidate, 1) : candidate).toISOString();
+};
+
+const ElapsedItem: React.FC<{ label: string; since?: string; now: Date }> = ({ label, since, now }) => (
+  <div className="rounded-lg border bg-muted/50 p-3">
+    <p className="text-sm font-medium text-muted-foreground">{label}</p>
+    <p className="font-mono text-lg font-semibold">
+      {since ? formatDuration(Math.max(0, Math.floor((now.getTime() - new Date(since).getTime()) / 1000))) : '--:--:--'}
+    </p>
+  </div>
+);
+
+export function TimerPanel({
+  protocol,
+  lastKnownWell,
+  treatmentWindowEndsAt,
+  tenecteplaseEligible,
+  milestones,
+  onMilestonesChange,
+}: TimerPanelProps) {
+  const now = useNow();
+
+  const setMilestone = (id: MilestoneId, timestamp: string | undefined) => {
+    onMilestonesChange({ ...milestones, [id]: timestamp });
+  };
+
+  const windowMinutesLeft = treatmentWindowEndsAt ? minutesBetween(now, treatmentWindowEndsAt) : undefined;
+  const showNeedleWarning =
+    tenecteplaseEligible &&
+    !milestones.needle &&
+    windowMinutesLeft !== undefined &&
+    windowMinutesLeft <= NEEDLE_WARNING_MINUTES;
+
+  const handleExport = () => {
+    const blob = new Blob([milestonesToCsv(milestones, lastKnownWell)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `neuroassist-timeline-${format(now, 'yyyyMMdd-HHmm')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-secondary/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <AlarmClock className="h-6 w-6 text-primary" />
+          Timers and Milestones
+        </CardTitle>
+        <CardDescription>Tick off milestones as they happen to track door-to-CT and door-to-needle times.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {treatmentWindowEndsAt && <TreatmentWindowCountdown endsAt={treatmentWindowEndsAt} protocol={protocol} />}
+
+        {showNeedleWarning && (
+          <Alert variant="destructive">
+            <AlarmClock className="h-4 w-4" />
+            <AlertTitle>Treatment Window Closing</AlertTitle>
+            <AlertDescription>
+              {windowMinutesLeft! > 0
+                ? `Only ${windowMinutesLeft} minutes remain and no thrombolytic bolus has been recorded.`
+                : 'The treatment window has closed and no thrombolytic bolus was recorded.'}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <ElapsedItem label="Since Last Known Well" since={lastKnownWell} now={now} />
+          <ElapsedItem label="Since Arrival" since={milestones.arrival} now={now} />
+        </div>
+
+        <ul className="space-y-2">
+          {MILESTONES.map((milestone) => {
+            const timestamp = milestones[milestone.id];
+            const doorMinutes = doorToMilestoneMinutes(milestones, milestone.id);
+            const pendingMinutes =
+              !timestamp && milestones.arrival ? minutesBetween(milestones.arrival, now) : undefined;
+            const isOverdue =
+              milestone.targetMinutes !== undefined &&
+              pendingMinutes !== undefined &&
+              pendingMinutes > milestone.targetMinutes;
+            const missedTarget =
+              milestone.targetMinutes !== undefined && doorMinutes !== undefined && doorMinutes > milestone.targetMinutes;
+
+            return (
+              <li
+                key={milestone.id}
+                className={cn(
+                  'flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-background p-3',
+                  isOverdue && 'border-amber-500/50 bg-amber-50'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  {timestamp ? (
+                    <CheckCircle2 className={cn('h-4 w-4', missedTarget ? 'text-destructive' : 'text-green-600')} />
+                  ) : (
+                    <Clock className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div>
+                    <p className="text-sm font-medium">{milestone.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {milestone.targetMinutes !== undefined && `Target ≤ ${milestone.targetMinutes} min`}
+                      {doorMinutes !== undefined && milestone.id !== 'arrival' && ` · Actual ${doorMinutes} min`}
+                      {isOverdue && ` · Overdue by ${pendingMinutes! - milestone.targetMinutes!} min`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    className="h-8 w-28"
+                    aria-label={`${milestone.label} time`}
+                    value={timestamp ? format(new Date(timestamp), 'HH:mm') : ''}
+                    onChange={(e) =>
+                      setMilestone(milestone.id, e.target.value ? toRecentTimestamp(e.target.value, now) : undefined)
+                    }
+                  />
+                  {timestamp ? (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Clear ${milestone.label}`}
+                      onClick={() => setMilestone(milestone.id, undefined)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-8"
+                      onClick={() => setMilestone(milestone.id, new Date().toISOString())}
+                    >
+                      Now
+                    </Button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <Button type="button" variant="outline" className="w-full" onClick={handleExport}>
+          <Download className="mr-2 h-4 w-4" />
+          Export Timeline (CSV)
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
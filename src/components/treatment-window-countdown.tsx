@@ -0,0 +1,54 @@
+'use client';
+
+import { Timer } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { formatDuration } from '@/lib/milestones';
+import type { Protocol } from '@/lib/protocols';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+interface TreatmentWindowCountdownProps {
+  endsAt: string;
+  /** The protocol the result followed, whose window length the progress is measured against. */
+  protocol: Protocol;
+}
+
+/** How close to the end of the window we start warning, in minutes. */
+const WINDOW_WARNING_MINUTES = 60;
+
+export function TreatmentWindowCountdown({ endsAt, protocol }: TreatmentWindowCountdownProps) {
+  const now = useNow();
+  const { treatmentWindowMinutes } = protocol;
+  const remainingSeconds = Math.floor((new Date(endsAt).getTime() - now.getTime()) / 1000);
+  const isClosed = remainingSeconds <= 0;
+  const isClosing = !isClosed && remainingSeconds <= WINDOW_WARNING_MINUTES * 60;
+  const elapsedPercent = Math.min(
+    100,
+    Math.max(0, 100 - (remainingSeconds / (treatmentWindowMinutes * 60)) * 100)
+  );
+
+  return (
+    <div
+      className={cn(
+        'space-y-2 rounded-lg border p-4',
+        isClosed ? 'border-destructive/30 bg-destructive/10' : isClosing ? 'border-amber-500/50 bg-amber-50' : 'bg-muted/50'
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-primary" />
+          <p className="text-sm font-medium text-muted-foreground">Treatment Window Remaining</p>
+        </div>
+        <p className={cn('font-mono text-lg font-semibold', isClosed && 'text-destructive')}>
+          {isClosed ? 'Closed' : formatDuration(remainingSeconds)}
+        </p>
+      </div>
+      <Progress value={elapsedPercent} />
+      <p className="text-xs text-muted-foreground">
+        {isClosed
+          ? `The ${treatmentWindowMinutes}-minute window closed ${formatDuration(-remainingSeconds)} ago.`
+          : `Closes at ${new Date(endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import * as React from "react"
+
+/** Returns the current time, re-rendering the caller every `intervalMs`. */
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs)
+    return () => clearInterval(id)
+  }, [intervalMs])
+
+  return now
+}
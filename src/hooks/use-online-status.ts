@@ -0,0 +1,19 @@
+import * as React from "react"
+
+/** Tracks `navigator.onLine`, updating on the browser's online/offline events. */
+export function useOnlineStatus() {
+  const [isOnline, setIsOnline] = React.useState(true)
+
+  React.useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine)
+    update()
+    window.addEventListener("online", update)
+    window.addEventListener("offline", update)
+    return () => {
+      window.removeEventListener("online", update)
+      window.removeEventListener("offline", update)
+    }
+  }, [])
+
+  return isOnline
+}
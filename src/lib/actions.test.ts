@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { selectActionPlan } from '@/lib/actions';
+import { getActiveProtocol, protocolSchema } from '@/lib/protocols';
+
+const monitorVitals = (protocol = getActiveProtocol()) =>
+  selectActionPlan('Ischemic', true, protocol)
+    .sections.flatMap((section) => section.steps)
+    .find((step) => step.id === 'monitor-vitals')?.detail;
+
+describe('selectActionPlan', () => {
+  it('writes out the protocol\'s observation schedule', () => {
+    expect(monitorVitals()).toBe(
+      'Check blood pressure and neurological status every 15 minutes for 2 hours, then every 30 minutes for 6 hours, ' +
+        'then every hour for 16 hours after administration.'
+    );
+  });
+
+  it('follows a site\'s own observation schedule', () => {
+    const protocol = getActiveProtocol();
+    const schedule = [
+      { everyMinutes: 15, forMinutes: 60 },
+      { everyMinutes: 120, forMinutes: 90 },
+    ];
+
+    expect(monitorVitals({ ...protocol, observationSchedule: schedule })).toBe(
+      'Check blood pressure and neurological status every 15 minutes for 1 hour, then every 2 hours for 90 minutes ' +
+        'after administration.'
+    );
+  });
+
+  it('accepts the schedule placeholder in a protocol and still rejects unknown ones', () => {
+    const protocol = getActiveProtocol();
+    const withDetail = (detail: string) => ({
+      ...protocol,
+      actionPlans: {
+        ...protocol.actionPlans,
+        uncertain: { ...protocol.actionPlans.uncertain, summary: detail },
+      },
+    });
+
+    expect(protocolSchema.safeParse(withDetail('Observe {observationSchedule}.')).success).toBe(true);
+    expect(protocolSchema.safeParse(withDetail('Observe {observationPlan}.')).success).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import type { StrokeType } from '@/lib/eligibility';
+import type { Protocol } from '@/lib/protocols';
+import { doseParametersSchema } from '@/lib/dosing';
+import { formatObservationSchedule } from '@/lib/observations';
+
+export const ACTION_KEYS = ['hemorrhagic', 'ischemicEligible', 'ischemicNotEligible', 'uncertain'] as const;
+export type ActionKey = (typeof ACTION_KEYS)[number];
+
+export const actionSectionSchema = z.object({
+  title: z.string(),
+  steps: z.array(z.object({ id: z.string(), label: z.string(), detail: z.string() })),
+});
+
+export const actionPlanSchema = z.object({
+  key: z.enum(ACTION_KEYS),
+  /** The name of the protocol the plan was taken from. Absent on results saved before protocols were configurable. */
+  protocol: z.string().optional(),
+  /** The version of that protocol. */
+  version: z.string(),
+  title: z.string(),
+  summary: z.string(),
+  sections: z.array(actionSectionSchema),
+  dose: doseParametersSchema.optional(),
+});
+
+export type ActionSection = z.infer<typeof actionSectionSchema>;
+export type ActionPlan = z.infer<typeof actionPlanSchema>;
+
+const PLACEHOLDER = /\{([\w.]+)\}/g;
+
+/** Placeholders for protocol values that are written out as text rather than looked up as they are. */
+const FORMATTED_PLACEHOLDERS: Record<string, (protocol: Protocol) => string> = {
+  observationSchedule: (protocol) => formatObservationSchedule(protocol.observationSchedule),
+};
+
+/**
+ * Looks up a placeholder such as `thrombolytic.mgPerKg` in the protocol, if it names a number or string,
+ * or writes out a formatted one such as `observationSchedule`.
+ */
+export function resolvePlaceholder(protocol: Protocol, path: string): string | number | undefined {
+  if (Object.hasOwn(FORMATTED_PLACEHOLDERS, path)) {
+    return FORMATTED_PLACEHOLDERS[path](protocol);
+  }
+  let value: unknown = protocol;
+  for (const key of path.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+}
+
+/** Every placeholder used in a piece of action plan text. */
+export function placeholdersIn(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]);
+}
+
+const fillPlaceholders = (text: string, protocol: Protocol) =>
+  text.replace(PLACEHOLDER, (placeholder, path: string) => String(resolvePlaceholder(protocol, path) ?? placeholder));
+
+export function selectActionKey(strokeType: StrokeType, tenecteplaseEligible: boolean): ActionKey {
+  if (strokeType === 'Hemorrhagic') {
+    return 'hemorrhagic';
+  }
+  if (strokeType === 'Uncertain') {
+    return 'uncertain';
+  }
+  return tenecteplaseEligible ? 'ischemicEligible' : 'ischemicNotEligible';
+}
+
+/**
+ * The recommended action, taken from the protocol's plans. It is selected by the rules, never written by
+ * the model, and the doses and thresholds in its text are filled in from the protocol's own values so the
+ * text cannot disagree with the calculator or the eligibility rules.
+ */
+export function selectActionPlan(strokeType: StrokeType, tenecteplaseEligible: boolean, protocol: Protocol): ActionPlan {
+  const key = selectActionKey(strokeType, tenecteplaseEligible);
+  const { title, summary, sections } = protocol.actionPlans[key];
+
+  return {
+    key,
+    protocol: protocol.name,
+    version: protocol.version,
+    title: fillPlaceholders(title, protocol),
+    summary: fillPlaceholders(summary, protocol),
+    sections: sections.map((section) => ({
+      title: fillPlaceholders(section.title, protocol),
+      steps: section.steps.map((step) => ({
+        id: step.id,
+        label: fillPlaceholders(step.label, protocol),
+        detail: fillPlaceholders(step.detail, protocol),
+      })),
+    })),
+    dose: key === 'ischemicEligible' ? protocol.thrombolytic : undefined,
+  };
+}
+
+/** The plan as plain text, for sharing and for searching case history. */
+export function formatActionPlan(plan: ActionPlan): string {
+  return [
+    plan.title.toUpperCase(),
+    plan.summary,
+    ...plan.sections.map(
+      (section) => `\n${section.title}:\n${section.steps.map((step) => `${step.label}: ${step.detail}`).join('\n')}`
+    ),
+  ].join('\n');
+}
@@ -0,0 +1,100 @@
+import type { PredictStrokeTypeInput, PredictStrokeTypeOutput } from '@/ai/flows/predict-stroke-type';
+import { evaluateTenecteplaseEligibility, treatmentWindowEndsAt } from '@/lib/eligibility';
+import { computeSiriraj, type SirirajResult } from '@/lib/scores/siriraj';
+import { computeGuysHospital, type GuysHospitalResult } from '@/lib/scores/guys-hospital';
+import {
+  DISAGREEMENT_MAX_CONFIDENCE,
+  reconcileClinicalScores,
+  type ClinicalScoreAgreement,
+} from '@/lib/scores/agreement';
+import { computeNihssTotal } from '@/lib/scores/nihss';
+import { computeRace, type RaceResult } from '@/lib/scores/race';
+import { calibrateConfidence, getActiveCalibration, type Calibration } from '@/lib/calibration';
+import type { GuardrailWarning } from '@/lib/guardrails';
+import { formatActionPlan, selectActionPlan } from '@/lib/actions';
+import { getActiveProtocol, type Protocol } from '@/lib/protocols';
+
+/** Every deterministic score computed from the structured inputs. */
+export type ClinicalAssessment = {
+  siriraj?: SirirajResult;
+  guysHospital?: GuysHospitalResult;
+  agreement?: ClinicalScoreAgreement;
+  nihssTotal?: number;
+  race: RaceResult;
+};
+
+/** The fields a diagnostic model (LLM or on-device) is responsible for. */
+export type ModelPrediction = Pick<PredictStrokeTypeOutput, 'strokeType' | 'confidence'>;
+
+/** Computes the clinical scores. Siriraj and Guy's Hospital are only used when there is no CT scan. */
+export function assessClinicalFindings(input: PredictStrokeTypeInput): ClinicalAssessment {
+  const siriraj = input.ctScanImage ? undefined : computeSiriraj(input);
+  const guysHospital = input.ctScanImage ? undefined : computeGuysHospital(input);
+
+  return {
+    siriraj,
+    guysHospital,
+    agreement:
+      siriraj && guysHospital
+        ? reconcileClinicalScores(siriraj.interpretation, guysHospital.interpretation)
+        : undefined,
+    nihssTotal: input.nihss ? computeNihssTotal(input.nihss) : undefined,
+    race: computeRace(input.race, input.armWeakness),
+  };
+}
+
+/**
+ * Applies the deterministic safety rules to a model's prediction and attaches the scores.
+ * Whatever the model concluded, conflicting clinical scores downgrade the diagnosis and
+ * the rules engine has the final say on eligibility and the action plan, both following the site protocol.
+ * The model's confidence is replaced by its calibrated value and kept as `rawConfidence`.
+ */
+export function finalizePrediction(
+  input: PredictStrokeTypeInput,
+  assessment: ClinicalAssessment,
+  prediction: ModelPrediction,
+  {
+    calibration = getActiveCalibration(),
+    protocol = getActiveProtocol(),
+    warnings = [],
+  }: { calibration?: Calibration; protocol?: Protocol; warnings?: GuardrailWarning[] } = {}
+): PredictStrokeTypeOutput {
+  const { siriraj, guysHospital, agreement, nihssTotal, race } = assessment;
+  let { strokeType } = prediction;
+  let confidence = calibrateConfidence(
+    { rawConfidence: prediction.confidence, sirirajMargin: siriraj ? Math.abs(siriraj.score) : 0 },
+    calibration.parameters
+  );
+
+  if (agreement && !agreement.agree) {
+    strokeType = 'Uncertain';
+    confidence = Math.min(confidence, DISAGREEMENT_MAX_CONFIDENCE);
+  }
+
+  const eligibility = evaluateTenecteplaseEligibility(input, strokeType, protocol);
+  const actionPlan = selectActionPlan(strokeType, eligibility.eligible, protocol);
+
+  return {
+    ...prediction,
+    strokeType,
+    confidence,
+    rawConfidence: prediction.confidence,
+    calibrationVersion: calibration.version,
+    actionPlan,
+    action: formatActionPlan(actionPlan),
+    protocolId: protocol.id,
+    warnings,
+    tenecteplaseEligible: eligibility.eligible,
+    eligibilityCriteria: eligibility.criteria,
+    siriraj,
+    guysHospital,
+    clinicalScoresAgree: agreement?.agree,
+    nihssTotal,
+    raceScore: race.score,
+    lvoSuspected: race.lvoSuspected,
+    lastKnownWell: input.lastKnownWell,
+    treatmentWindowEndsAt: input.lastKnownWell
+      ? treatmentWindowEndsAt(new Date(input.lastKnownWell), protocol).toISOString()
+      : undefined,
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { bloodPressureTarget } from '@/lib/blood-pressure';
+import { getActiveProtocol } from '@/lib/protocols';
+
+describe('bloodPressureTarget', () => {
+  it('gives the post-lysis monitoring period and frequency from the observation schedule', () => {
+    expect(bloodPressureTarget('postLysis', getActiveProtocol()).advice).toBe(
+      'Keep the BP at or below target for 24 hours after thrombolysis, checking it every 15 minutes for 2 hours, ' +
+        'then every 30 minutes for 6 hours, then every hour for 16 hours.'
+    );
+  });
+
+  it('follows a site\'s own observation schedule', () => {
+    const protocol = { ...getActiveProtocol(), observationSchedule: [{ everyMinutes: 10, forMinutes: 720 }] };
+
+    expect(bloodPressureTarget('postLysis', protocol).advice).toBe(
+      'Keep the BP at or below target for 12 hours after thrombolysis, checking it every 10 minutes for 12 hours.'
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import type { StrokeType } from '@/lib/eligibility';
+import type { Protocol } from '@/lib/protocols';
+import { formatObservationSchedule, formatScheduleDuration, observationScheduleMinutes } from '@/lib/observations';
+
+export type BloodPressureReading = {
+  takenAt: string;
+  systolic: number;
+  diastolic: number;
+};
+
+export const BLOOD_PRESSURE_PATHWAYS = ['preLysis', 'postLysis', 'hemorrhagic', 'permissive'] as const;
+export type BloodPressurePathway = (typeof BLOOD_PRESSURE_PATHWAYS)[number];
+
+export type BloodPressureTarget = {
+  pathway: BloodPressurePathway;
+  label: string;
+  /** Readings above these are above target. Hemorrhagic strokes are managed on the systolic pressure alone. */
+  maxSystolic: number;
+  maxDiastolic?: number;
+  advice: string;
+};
+
+/** The protocol's target for each pathway, with what to do when a reading is above it. */
+export function bloodPressureTarget(pathway: BloodPressurePathway, protocol: Protocol): BloodPressureTarget {
+  const { bloodPressure, thrombolytic, observationSchedule } = protocol;
+
+  switch (pathway) {
+    case 'preLysis':
+      return {
+        pathway,
+        label: 'Before thrombolysis',
+        maxSystolic: bloodPressure.maxSystolicForLysis,
+        maxDiastolic: bloodPressure.maxDiastolicForLysis,
+        advice: `Lower the BP before giving ${thrombolytic.drug}. If it cannot be brought to target and kept there, do not give it.`,
+      };
+    case 'postLysis':
+      return {
+        pathway,
+        label: 'After thrombolysis',
+        maxSystolic: bloodPressure.postLysisSystolic,
+        maxDiastolic: bloodPressure.postLysisDiastolic,
+        advice:
+          `Keep the BP at or below target for ${formatScheduleDuration(observationScheduleMinutes(observationSchedule))}` +
+          ` after thrombolysis, checking it ${formatObservationSchedule(observationSchedule)}.`,
+      };
+    case 'hemorrhagic':
+      return {
+        pathway,
+        label: 'Hemorrhagic stroke',
+        maxSystolic: bloodPressure.hemorrhageSystolic,
+        advice: 'Lower the systolic BP gradually with antihypertensives, avoiding sudden drops.',
+      };
+    case 'permissive':
+      return {
+        pathway,
+        label: 'Ischemic, not thrombolysed',
+        maxSystolic: bloodPressure.permissiveSystolic,
+        maxDiastolic: bloodPressure.permissiveDiastolic,
+        advice: 'Permissive hypertension: only treat above target, then lower the BP by about 15% over the first 24 hours.',
+      };
+  }
+}
+
+/** The pathway a result puts the patient on. Once the thrombolytic has been given, the post-lysis targets apply. */
+export function defaultBloodPressurePathway(
+  strokeType: StrokeType,
+  tenecteplaseEligible: boolean,
+  lysisGiven: boolean
+): BloodPressurePathway {
+  if (strokeType === 'Hemorrhagic') {
+    return 'hemorrhagic';
+  }
+  if (lysisGiven) {
+    return 'postLysis';
+  }
+  return tenecteplaseEligible ? 'preLysis' : 'permissive';
+}
+
+export function isAboveTarget(reading: Pick<BloodPressureReading, 'systolic' | 'diastolic'>, target: BloodPressureTarget) {
+  return (
+    reading.systolic > target.maxSystolic || (target.maxDiastolic !== undefined && reading.diastolic > target.maxDiastolic)
+  );
+}
+
+export const formatTarget = ({ maxSystolic, maxDiastolic }: BloodPressureTarget) =>
+  maxDiastolic === undefined ? `SBP ≤ ${maxSystolic} mmHg` : `≤ ${maxSystolic}/${maxDiastolic} mmHg`;
+
+/** Readings in the order they were taken. */
+export const sortReadings = (readings: BloodPressureReading[]) =>
+  [...readings].sort((a, b) => a.takenAt.localeCompare(b.takenAt));
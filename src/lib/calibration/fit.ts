@@ -0,0 +1,102 @@
+import { logit, sigmoid, type CalibrationFeatures, type CalibrationParameters } from '@/lib/calibration';
+
+/** One labelled prediction: the features the calibration sees and whether the prediction was right. */
+export type CalibrationSample = CalibrationFeatures & { correct: boolean };
+
+const NEWTON_ITERATIONS = 50;
+
+/** Solves `matrix * x = vector` by Gaussian elimination with partial pivoting. */
+const solve = (matrix: number[][], vector: number[]): number[] => {
+  const n = vector.length;
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    const pivot = rows.reduce((best, row, i) => (i >= col && Math.abs(row[col]) > Math.abs(rows[best][col]) ? i : best), col);
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let i = col + 1; i < n; i++) {
+      const factor = rows[i][col] / rows[col][col];
+      for (let j = col; j <= n; j++) {
+        rows[i][j] -= factor * rows[col][j];
+      }
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    x[i] = (rows[i][n] - rows[i].slice(i + 1, n).reduce((sum, value, k) => sum + value * x[i + 1 + k], 0)) / rows[i][i];
+  }
+  return x;
+};
+
+/**
+ * Platt scaling: a logistic regression of correctness on logit(raw confidence) and the Siriraj
+ * margin, fitted by Newton's method. Targets are smoothed as Platt (1999) recommends so a small
+ * dataset cannot push the calibrated value to exactly 0 or 1.
+ */
+export function fitPlatt(samples: CalibrationSample[]): Extract<CalibrationParameters, { method: 'platt' }> {
+  const positives = samples.filter((sample) => sample.correct).length;
+  const negatives = samples.length - positives;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (negatives + 2);
+
+  const rows = samples.map((sample) => ({
+    x: [logit(sample.rawConfidence), sample.sirirajMargin, 1],
+    y: sample.correct ? high : low,
+  }));
+
+  // A small ridge keeps the Hessian invertible when a feature is constant, e.g. all CT cases.
+  const ridge = 1e-6;
+  let weights = [1, 0, 0];
+
+  for (let iteration = 0; iteration < NEWTON_ITERATIONS; iteration++) {
+    const gradient = [0, 0, 0];
+    const hessian = [0, 1, 2].map((i) => [0, 1, 2].map((j) => (i === j ? ridge : 0)));
+    for (const { x, y } of rows) {
+      const p = sigmoid(x.reduce((sum, value, i) => sum + value * weights[i], 0));
+      for (let i = 0; i < 3; i++) {
+        gradient[i] += (p - y) * x[i];
+        for (let j = 0; j < 3; j++) {
+          hessian[i][j] += p * (1 - p) * x[i] * x[j];
+        }
+      }
+    }
+    const step = solve(hessian, gradient);
+    weights = weights.map((weight, i) => weight - step[i]);
+    if (Math.max(...step.map(Math.abs)) < 1e-9) {
+      break;
+    }
+  }
+
+  const [slope, marginWeight, intercept] = weights;
+  return { method: 'platt', slope, marginWeight, intercept };
+}
+
+/** Isotonic regression of correctness on raw confidence by pool-adjacent-violators. */
+export function fitIsotonic(samples: CalibrationSample[]): Extract<CalibrationParameters, { method: 'isotonic' }> {
+  const sorted = [...samples].sort((a, b) => a.rawConfidence - b.rawConfidence);
+  const blocks: Array<{ upper: number; total: number; count: number }> = [];
+
+  for (const sample of sorted) {
+    const last = blocks[blocks.length - 1];
+    if (last?.upper === sample.rawConfidence) {
+      // Tied confidences must share a calibrated value.
+      last.total += Number(sample.correct);
+      last.count++;
+    } else {
+      blocks.push({ upper: sample.rawConfidence, total: Number(sample.correct), count: 1 });
+    }
+    // Merge backwards while the block means decrease.
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.total / previous.count <= last.total / last.count) {
+        break;
+      }
+      blocks.splice(-2, 2, { upper: last.upper, total: previous.total + last.total, count: previous.count + last.count });
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map((block) => block.upper),
+    values: blocks.map((block) => block.total / block.count),
+  };
+}
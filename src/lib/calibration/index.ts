@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import identity1 from '@/lib/calibration/versions/identity-1.json';
+
+/** What a calibration maps to a probability that the predicted stroke type is correct. */
+export type CalibrationFeatures = {
+  /** The confidence the model stated. */
+  rawConfidence: number;
+  /** How far the Siriraj score is from zero; 0 when a CT scan was used instead. */
+  sirirajMargin: number;
+};
+
+const plattSchema = z.object({
+  method: z.literal('platt'),
+  /** Weight on logit(rawConfidence). */
+  slope: z.number(),
+  /** Weight on the Siriraj margin. */
+  marginWeight: z.number(),
+  intercept: z.number(),
+});
+
+const isotonicSchema = z
+  .object({
+    method: z.literal('isotonic'),
+    /** Ascending raw confidences at which the calibrated value steps up. */
+    thresholds: z.array(z.number()),
+    /** The calibrated value at and below each threshold, non-decreasing. */
+    values: z.array(z.number().min(0).max(1)),
+  })
+  .refine(({ thresholds, values }) => thresholds.length === values.length && thresholds.length > 0, {
+    message: 'An isotonic calibration needs one value per threshold.',
+  });
+
+const identitySchema = z.object({ method: z.literal('identity') });
+
+export const calibrationSchema = z.object({
+  version: z.string(),
+  description: z.string(),
+  fittedAt: z.string().optional(),
+  /** The number of labelled cases the parameters were fitted on. */
+  cases: z.number().optional(),
+  parameters: z.union([plattSchema, isotonicSchema, identitySchema]),
+});
+
+export type Calibration = z.infer<typeof calibrationSchema>;
+export type CalibrationParameters = Calibration['parameters'];
+
+/**
+ * Every calibration shipped with the app. Fitted versions are added here (see `npm run calibrate`)
+ * and selected with NEXT_PUBLIC_CALIBRATION_VERSION, so a result always records which one produced it.
+ */
+export const CALIBRATIONS: Record<string, Calibration> = Object.fromEntries(
+  [identity1].map((calibration) => {
+    const parsed = calibrationSchema.parse(calibration);
+    return [parsed.version, parsed];
+  })
+);
+
+export const DEFAULT_CALIBRATION_VERSION = 'identity-1';
+
+export function getActiveCalibration(): Calibration {
+  const version = process.env.NEXT_PUBLIC_CALIBRATION_VERSION || DEFAULT_CALIBRATION_VERSION;
+  const calibration = CALIBRATIONS[version];
+  if (!calibration) {
+    throw new Error(`Unknown calibration version "${version}". Known versions: ${Object.keys(CALIBRATIONS).join(', ')}.`);
+  }
+  return calibration;
+}
+
+const EPSILON = 1e-6;
+
+export const logit = (p: number) => {
+  const clamped = Math.min(Math.max(p, EPSILON), 1 - EPSILON);
+  return Math.log(clamped / (1 - clamped));
+};
+
+export const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+export function calibrateConfidence(features: CalibrationFeatures, parameters: CalibrationParameters): number {
+  switch (parameters.method) {
+    case 'identity':
+      return features.rawConfidence;
+    case 'platt':
+      return sigmoid(
+        parameters.slope * logit(features.rawConfidence) +
+          parameters.marginWeight * features.sirirajMargin +
+          parameters.intercept
+      );
+    case 'isotonic': {
+      const index = parameters.thresholds.findIndex((threshold) => features.rawConfidence <= threshold);
+      return parameters.values[index === -1 ? parameters.values.length - 1 : index];
+    }
+  }
+}
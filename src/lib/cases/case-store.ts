@@ -0,0 +1,71 @@
+import type { CaseRecord, PredictionResult } from '@/types';
+
+/** Storage backend for case history. Implementations must be safe to call from the browser. */
+export interface CaseStore {
+  list(): Promise<CaseRecord[]>;
+  get(id: string): Promise<CaseRecord | undefined>;
+  save(record: CaseRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export type CaseFilters = {
+  query: string;
+  strokeType: PredictionResult['strokeType'] | 'All';
+  eligibility: 'All' | 'Eligible' | 'Not eligible';
+};
+
+export const DEFAULT_CASE_FILTERS: CaseFilters = {
+  query: '',
+  strokeType: 'All',
+  eligibility: 'All',
+};
+
+/** Returns the cases matching the filters, newest first. */
+export function filterCases(cases: CaseRecord[], filters: CaseFilters): CaseRecord[] {
+  const query = filters.query.trim().toLowerCase();
+
+  return cases
+    .filter((record) => filters.strokeType === 'All' || record.result.strokeType === filters.strokeType)
+    .filter(
+      (record) =>
+        filters.eligibility === 'All' ||
+        record.result.tenecteplaseEligible === (filters.eligibility === 'Eligible')
+    )
+    .filter((record) => {
+      if (!query) {
+        return true;
+      }
+      const haystack = [
+        record.id,
+        record.result.strokeType,
+        record.result.action,
+        record.dosing?.drug,
+        record.referral?.patientName,
+        record.referral?.patientId,
+        new Date(record.createdAt).toLocaleString(),
+      ]
+        .join(' ')
+        .toLowerCase();
+      return haystack.includes(query);
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Wraps a local store so every write is mirrored to a remote one.
+ * Reads are served locally; remote failures are logged so the local copy is never lost.
+ */
+export function withRemoteMirror(local: CaseStore, remote: CaseStore): CaseStore {
+  return {
+    list: () => local.list(),
+    get: (id) => local.get(id),
+    async save(record) {
+      await local.save(record);
+      await remote.save(record).catch((error) => console.error('Failed to mirror case to server:', error));
+    },
+    async delete(id) {
+      await local.delete(id);
+      await remote.delete(id).catch((error) => console.error('Failed to delete case on server:', error));
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { CaseRecord, PredictionResult, StoredSymptomValues, SymptomFormValues } from '@/types';
+import type { Milestones } from '@/lib/milestones';
+import { withRemoteMirror, type CaseStore } from '@/lib/cases/case-store';
+import { createIndexedDbCaseStore } from '@/lib/cases/indexed-db-store';
+import { createRemoteCaseStore } from '@/lib/cases/remote-store';
+
+export { DEFAULT_CASE_FILTERS, filterCases, type CaseFilters, type CaseStore } from '@/lib/cases/case-store';
+
+let caseStore: CaseStore | undefined;
+
+/**
+ * Returns the case store for this deployment: IndexedDB in the browser, mirrored to
+ * NEXT_PUBLIC_CASE_SERVER_URL when a server is configured.
+ */
+export function getCaseStore(): CaseStore {
+  if (!caseStore) {
+    const local = createIndexedDbCaseStore();
+    const serverUrl = process.env.NEXT_PUBLIC_CASE_SERVER_URL;
+    caseStore = serverUrl ? withRemoteMirror(local, createRemoteCaseStore(serverUrl)) : local;
+  }
+  return caseStore;
+}
+
+export function toStoredSymptomValues({ ctScanImage, lastKnownWell, ...values }: SymptomFormValues): StoredSymptomValues {
+  return {
+    ...values,
+    lastKnownWell: lastKnownWell?.toISOString(),
+  };
+}
+
+export function createCaseRecord(
+  input: SymptomFormValues,
+  predictionInput: PredictStrokeTypeInput,
+  result: PredictionResult,
+  image?: string,
+  milestones: Milestones = {}
+): CaseRecord {
+  const now = new Date().toISOString();
+  const { systolicBloodPressure, diastolicBloodPressure } = predictionInput;
+  return {
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    input: toStoredSymptomValues(input),
+    // The image is kept once, on the record, rather than inside the prediction input.
+    predictionInput: { ...predictionInput, ctScanImage: undefined },
+    result,
+    pendingSync: result.offline,
+    image,
+    milestones,
+    bloodPressureReadings:
+      systolicBloodPressure !== undefined
+        ? [{ takenAt: now, systolic: systolicBloodPressure, diastolic: diastolicBloodPressure }]
+        : [],
+  };
+}
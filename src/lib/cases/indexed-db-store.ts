@@ -0,0 +1,56 @@
+import type { CaseRecord } from '@/types';
+import type { CaseStore } from '@/lib/cases/case-store';
+
+const DB_NAME = 'neuroassist';
+const DB_VERSION = 1;
+const CASES_STORE = 'cases';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CASES_STORE)) {
+          db.createObjectStore(CASES_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = undefined;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return requestToPromise(run(db.transaction(CASES_STORE, mode).objectStore(CASES_STORE)));
+};
+
+/** Stores cases in the browser's IndexedDB so they survive reloads and work offline. */
+export function createIndexedDbCaseStore(): CaseStore {
+  return {
+    list: () => withStore<CaseRecord[]>('readonly', (store) => store.getAll()),
+    get: (id) => withStore<CaseRecord | undefined>('readonly', (store) => store.get(id)),
+    async save(record) {
+      await withStore('readwrite', (store) => store.put(record));
+    },
+    async delete(id) {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { CaseRecord } from '@/types';
+import type { CaseStore } from '@/lib/cases/case-store';
+
+/**
+ * A REST case store for a hospital-hosted server. Expects:
+ * GET {baseUrl} -> CaseRecord[], GET/PUT/DELETE {baseUrl}/{id}.
+ */
+export function createRemoteCaseStore(baseUrl: string): CaseStore {
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Case server responded with ${response.status}.`);
+    }
+    return response;
+  };
+
+  return {
+    async list() {
+      const response = await request('');
+      return (await response.json()) as CaseRecord[];
+    },
+    async get(id) {
+      const response = await request(`/${encodeURIComponent(id)}`);
+      return response.status === 404 ? undefined : ((await response.json()) as CaseRecord);
+    },
+    async save(record) {
+      await request(`/${encodeURIComponent(record.id)}`, { method: 'PUT', body: JSON.stringify(record) });
+    },
+    async delete(id) {
+      await request(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    },
+  };
+}
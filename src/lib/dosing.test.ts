@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateThrombolyticDose, type DoseParameters } from '@/lib/dosing';
+import { getActiveProtocol } from '@/lib/protocols';
+
+const { thrombolytic: tenecteplase, alternativeThrombolytics } = getActiveProtocol();
+const alteplase = alternativeThrombolytics.find((dose) => dose.agent === 'alteplase')!;
+
+const dose = (parameters: DoseParameters, weightKg: number) =>
+  calculateThrombolyticDose(parameters, { value: weightKg, unit: 'kg', estimated: false });
+
+describe('calculateThrombolyticDose', () => {
+  it('takes the top weight band dose without calling it capped', () => {
+    // 120 kg x 0.25 mg/kg would be over the maximum, but the band's dose is fixed.
+    const result = dose(tenecteplase, 120);
+
+    expect(result.weightBand).toBe('≥ 90 kg');
+    expect(result.totalDoseMg).toBe(25);
+    expect(result.capped).toBe(false);
+  });
+
+  it('caps a dose worked out from the exact weight at the maximum', () => {
+    const result = dose(alteplase, 120);
+
+    expect(result.totalDoseMg).toBe(alteplase.maxDoseMg);
+    expect(result.capped).toBe(true);
+    expect(result.bolusDoseMg).toBe(9);
+  });
+
+  it('does not cap a weight-based dose under the maximum', () => {
+    const result = dose(alteplase, 70);
+
+    expect(result.totalDoseMg).toBe(63);
+    expect(result.capped).toBe(false);
+  });
+});
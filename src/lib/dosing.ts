@@ -0,0 +1,184 @@
+import { z } from 'zod';
+
+export const THROMBOLYTIC_AGENTS = ['tenecteplase', 'alteplase'] as const;
+export type ThrombolyticAgent = (typeof THROMBOLYTIC_AGENTS)[number];
+
+export const WEIGHT_UNITS = ['kg', 'lb'] as const;
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+
+export const KG_PER_LB = 0.45359237;
+
+/** A weight as it was entered, before any conversion. */
+export type PatientWeight = {
+  value: number;
+  unit: WeightUnit;
+  /** Whether the weight was estimated rather than measured. */
+  estimated: boolean;
+};
+
+/** Weights are rounded to 0.1 kg. */
+export const toKilograms = ({ value, unit }: Pick<PatientWeight, 'value' | 'unit'>) =>
+  Math.round((unit === 'lb' ? value * KG_PER_LB : value) * 10) / 10;
+
+const weightBandSchema = z.object({
+  /** The band covers weights below this; the last band has none and covers every heavier weight. */
+  maxWeightKg: z.number().positive().optional(),
+  doseMg: z.number().positive(),
+});
+
+export type WeightBand = z.infer<typeof weightBandSchema>;
+
+export const doseParametersSchema = z
+  .object({
+    agent: z.enum(THROMBOLYTIC_AGENTS),
+    drug: z.string(),
+    mgPerKg: z.number().positive(),
+    maxDoseMg: z.number().positive(),
+    administration: z.string(),
+    /** The share of the total dose given as the bolus; the rest is infused. 1 for a single bolus. */
+    bolusFraction: z.number().gt(0).max(1),
+    /** How long the rest of the dose is infused over, when it is not all given as the bolus. */
+    infusionMinutes: z.number().positive().optional(),
+    /** The vial stocked, as reconstituted. */
+    vial: z.object({ mg: z.number().positive(), ml: z.number().positive() }),
+    /** Fixed doses by weight, lightest first, used instead of the exact weight-based dose when given. */
+    weightBands: z.array(weightBandSchema).min(1).optional(),
+  })
+  .refine((dose) => dose.bolusFraction === 1 || dose.infusionMinutes !== undefined, {
+    message: 'An infusion time is needed when part of the dose is infused.',
+    path: ['infusionMinutes'],
+  })
+  .refine(
+    ({ weightBands }) =>
+      !weightBands ||
+      weightBands.every(({ maxWeightKg }, index) =>
+        index === weightBands.length - 1
+          ? maxWeightKg === undefined
+          : maxWeightKg !== undefined && (index === 0 || maxWeightKg > weightBands[index - 1].maxWeightKg!)
+      ),
+    {
+      message: 'Weight bands must be in ascending order of weight, and only the last may be open-ended.',
+      path: ['weightBands'],
+    }
+  );
+
+export type DoseParameters = z.infer<typeof doseParametersSchema>;
+
+/** A calculated dose, recorded on the case so it shows which agent was chosen and how much was drawn up. */
+export type ThrombolyticDose = {
+  agent: ThrombolyticAgent;
+  drug: string;
+  weightKg: number;
+  /** The weight as entered. Absent on doses calculated before pounds and estimated weights were supported. */
+  enteredWeight?: PatientWeight;
+  /** The weight band the dose was taken from, when the agent is dosed by band. */
+  weightBand?: string;
+  totalDoseMg: number;
+  totalVolumeMl: number;
+  /** Whether the dose from the exact weight was reduced to the maximum dose. Never set for a weight-band dose. */
+  capped: boolean;
+  bolusDoseMg: number;
+  bolusVolumeMl: number;
+  infusion?: {
+    doseMg: number;
+    volumeMl: number;
+    minutes: number;
+    rateMgPerHour: number;
+    rateMlPerHour: number;
+  };
+  vialsNeeded: number;
+  calculatedAt: string;
+};
+
+/** Doses and volumes are rounded to what can be drawn up: 0.1 mg and 0.1 mL. */
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/** A band as a range, e.g. "60 to < 70 kg". */
+export function weightBandLabel(bands: WeightBand[], index: number): string {
+  const { maxWeightKg } = bands[index];
+  const minWeightKg = index > 0 ? bands[index - 1].maxWeightKg : undefined;
+  if (minWeightKg === undefined) {
+    return `< ${maxWeightKg} kg`;
+  }
+  return maxWeightKg === undefined ? `≥ ${minWeightKg} kg` : `${minWeightKg} to < ${maxWeightKg} kg`;
+}
+
+const findWeightBandIndex = (bands: WeightBand[], weightKg: number) =>
+  bands.findIndex(({ maxWeightKg }) => maxWeightKg === undefined || weightKg < maxWeightKg);
+
+/** The rows of a dose card: every weight band with its dose and the volume drawn up for it. */
+export function weightBandTable({ weightBands = [], maxDoseMg, vial }: DoseParameters) {
+  return weightBands.map((band, index) => {
+    const doseMg = Math.min(band.doseMg, maxDoseMg);
+    return { label: weightBandLabel(weightBands, index), doseMg, volumeMl: round(doseMg / (vial.mg / vial.ml)) };
+  });
+}
+
+/**
+ * Calculates the dose of a thrombolytic from its weight band, or from the exact weight when it has none,
+ * capped at its maximum dose, split into bolus and infusion, with the volumes drawn up from the reconstituted vial.
+ */
+export function calculateThrombolyticDose(
+  parameters: DoseParameters,
+  weight: PatientWeight,
+  calculatedAt: Date = new Date()
+): ThrombolyticDose {
+  const { agent, drug, mgPerKg, maxDoseMg, bolusFraction, infusionMinutes, vial, weightBands } = parameters;
+  const weightKg = toKilograms(weight);
+  const bandIndex = weightBands ? findWeightBandIndex(weightBands, weightKg) : -1;
+  const band = bandIndex >= 0 ? weightBands![bandIndex] : undefined;
+  const concentration = vial.mg / vial.ml;
+  // Only a dose worked out from the exact weight can be capped: a band's dose is fixed.
+  const weightBasedDoseMg = weightKg * mgPerKg;
+  const capped = !band && weightBasedDoseMg > maxDoseMg;
+  const totalDoseMg = round(band ? Math.min(band.doseMg, maxDoseMg) : capped ? maxDoseMg : weightBasedDoseMg);
+  const bolusDoseMg = round(totalDoseMg * bolusFraction);
+  const infusionDoseMg = round(totalDoseMg - bolusDoseMg);
+
+  return {
+    agent,
+    drug,
+    weightKg,
+    enteredWeight: weight,
+    weightBand: band ? weightBandLabel(weightBands!, bandIndex) : undefined,
+    totalDoseMg,
+    totalVolumeMl: round(totalDoseMg / concentration),
+    capped,
+    bolusDoseMg,
+    bolusVolumeMl: round(bolusDoseMg / concentration),
+    infusion:
+      infusionDoseMg > 0 && infusionMinutes
+        ? {
+            doseMg: infusionDoseMg,
+            volumeMl: round(infusionDoseMg / concentration),
+            minutes: infusionMinutes,
+            rateMgPerHour: round((infusionDoseMg * 60) / infusionMinutes),
+            rateMlPerHour: round((infusionDoseMg / concentration) * (60 / infusionMinutes)),
+          }
+        : undefined,
+    vialsNeeded: Math.ceil(totalDoseMg / vial.mg),
+    calculatedAt: calculatedAt.toISOString(),
+  };
+}
+
+/** The weight a dose was calculated for, as entered and in kilograms. */
+export function formatDoseWeight({ weightKg, enteredWeight }: ThrombolyticDose): string {
+  const entered = enteredWeight?.unit === 'lb' ? `${enteredWeight.value} lb = ${weightKg} kg` : `${weightKg} kg`;
+  return enteredWeight?.estimated ? `${entered} (estimated)` : entered;
+}
+
+/** One line summarising a dose, for sharing and the case record. */
+export function formatThrombolyticDose(dose: ThrombolyticDose): string {
+  const parts = [
+    `${dose.drug} ${dose.totalDoseMg} mg (${dose.totalVolumeMl} mL) for ${formatDoseWeight(dose)}${
+      dose.weightBand ? `, weight band ${dose.weightBand}` : ''
+    }${dose.capped ? ', capped at the maximum dose' : ''}`,
+  ];
+  if (dose.infusion) {
+    parts.push(
+      `bolus ${dose.bolusDoseMg} mg (${dose.bolusVolumeMl} mL)`,
+      `infusion ${dose.infusion.doseMg} mg (${dose.infusion.volumeMl} mL) over ${dose.infusion.minutes} min at ${dose.infusion.rateMlPerHour} mL/h`
+    );
+  }
+  return parts.join('; ');
+}
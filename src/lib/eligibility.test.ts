@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { evaluateTenecteplaseEligibility, type StrokeType } from '@/lib/eligibility';
+import { getActiveProtocol } from '@/lib/protocols';
+import { baseInput } from '@/test/fixtures';
+
+const protocol = getActiveProtocol();
+const { treatmentWindowMinutes, bloodPressure, labs } = protocol;
+
+const evaluate = (changes: Partial<PredictStrokeTypeInput>, strokeType: StrokeType = 'Ischemic') =>
+  evaluateTenecteplaseEligibility({ ...baseInput, ...changes }, strokeType, protocol);
+
+const criterion = (result: ReturnType<typeof evaluate>, id: string) => {
+  const found = result.criteria.find((candidate) => candidate.id === id);
+  if (!found) {
+    throw new Error(`No criterion ${id}`);
+  }
+  return found;
+};
+
+describe('evaluateTenecteplaseEligibility', () => {
+  it('makes a patient meeting every criterion eligible', () => {
+    const result = evaluate({});
+
+    expect(result.eligible).toBe(true);
+    expect(result.criteria.every((candidate) => candidate.passed)).toBe(true);
+  });
+
+  it('always reports every criterion', () => {
+    const ids = (result: ReturnType<typeof evaluate>) => result.criteria.map((candidate) => candidate.id);
+
+    expect(ids(evaluate({ anticoagulantUse: true }, 'Hemorrhagic'))).toEqual(ids(evaluate({})));
+  });
+
+  it.each(['Hemorrhagic', 'Uncertain'] as const)('excludes a stroke that is %s', (strokeType) => {
+    const result = evaluate({}, strokeType);
+
+    expect(result.eligible).toBe(false);
+    expect(criterion(result, 'ischemic-diagnosis').passed).toBe(false);
+  });
+
+  describe('treatment window', () => {
+    it('is open up to the last minute before the window closes', () => {
+      const result = evaluate({ timeSinceOnset: treatmentWindowMinutes - 1 });
+
+      expect(result.eligible).toBe(true);
+      expect(criterion(result, 'onset-window').detail).toContain('1 minutes remaining');
+    });
+
+    it('is closed at exactly the window length', () => {
+      const result = evaluate({ timeSinceOnset: treatmentWindowMinutes });
+
+      expect(result.eligible).toBe(false);
+      expect(criterion(result, 'onset-window').passed).toBe(false);
+      expect(criterion(result, 'onset-window').detail).toContain('window closed');
+    });
+
+    it('rejects a negative time since onset', () => {
+      expect(criterion(evaluate({ timeSinceOnset: -5 }), 'onset-window').passed).toBe(false);
+    });
+
+    it('excludes an unknown onset, even with a time since onset', () => {
+      const result = evaluate({ onsetUnknown: true });
+
+      expect(result.eligible).toBe(false);
+      expect(criterion(result, 'onset-window').detail).toContain('Onset time unknown');
+    });
+
+    it('excludes a missing time since onset', () => {
+      expect(evaluate({ timeSinceOnset: undefined }).eligible).toBe(false);
+    });
+
+    it('follows the protocol window', () => {
+      const longerWindow = { ...protocol, treatmentWindowMinutes: treatmentWindowMinutes + 60 };
+
+      expect(
+        evaluateTenecteplaseEligibility({ ...baseInput, timeSinceOnset: treatmentWindowMinutes }, 'Ischemic', longerWindow)
+          .eligible
+      ).toBe(true);
+    });
+  });
+
+  it('does not block on labs and a systolic BP that were not recorded', () => {
+    const result = evaluate({ systolicBloodPressure: undefined, plateletCount: undefined, bloodGlucose: undefined, inr: undefined });
+
+    expect(result.eligible).toBe(true);
+    expect(criterion(result, 'systolic-bp').detail).toBe('Systolic BP not recorded.');
+    expect(criterion(result, 'platelet-count').detail).toBe('Platelet count not recorded.');
+    expect(criterion(result, 'inr').detail).toBe('INR not recorded.');
+    expect(criterion(result, 'blood-glucose').detail).toBe('Blood glucose not recorded.');
+  });
+
+  it('accepts values exactly at the protocol limits', () => {
+    const result = evaluate({
+      systolicBloodPressure: bloodPressure.maxSystolicForLysis,
+      diastolicBloodPressure: bloodPressure.maxDiastolicForLysis,
+      plateletCount: labs.minPlateletCount,
+      inr: labs.maxInr,
+      bloodGlucose: labs.minGlucose,
+    });
+
+    expect(result.eligible).toBe(true);
+    expect(evaluate({ bloodGlucose: labs.maxGlucose }).eligible).toBe(true);
+  });
+
+  it.each<[string, Partial<PredictStrokeTypeInput>]>([
+    ['systolic-bp', { systolicBloodPressure: bloodPressure.maxSystolicForLysis + 1 }],
+    ['diastolic-bp', { diastolicBloodPressure: bloodPressure.maxDiastolicForLysis + 1 }],
+    ['prior-ich', { priorIntracranialHemorrhage: true }],
+    ['recent-stroke-or-head-trauma', { recentStrokeOrHeadTrauma: true }],
+    ['anticoagulant-use', { anticoagulantUse: true }],
+    ['platelet-count', { plateletCount: labs.minPlateletCount - 1 }],
+    ['inr', { inr: labs.maxInr + 0.1 }],
+    ['blood-glucose', { bloodGlucose: labs.minGlucose - 1 }],
+    ['blood-glucose', { bloodGlucose: labs.maxGlucose + 1 }],
+  ])('excludes a patient failing %s', (id, changes) => {
+    const result = evaluate(changes);
+
+    expect(result.eligible).toBe(false);
+    expect(criterion(result, id)).toMatchObject({ kind: 'exclusion', passed: false });
+    expect(result.criteria.filter((candidate) => !candidate.passed).map((candidate) => candidate.id)).toEqual([id]);
+  });
+
+  it('reports relative contraindications without blocking eligibility', () => {
+    const result = evaluate({ recentSurgery: true });
+
+    expect(result.eligible).toBe(true);
+    expect(criterion(result, 'recent-surgery')).toMatchObject({ kind: 'relative', passed: false });
+  });
+});
@@ -0,0 +1,162 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { getActiveProtocol, type Protocol } from '@/lib/protocols';
+
+export type StrokeType = 'Ischemic' | 'Hemorrhagic' | 'Uncertain';
+
+export function minutesSince(timestamp: Date, now: Date = new Date()): number {
+  return Math.max(0, Math.floor((now.getTime() - timestamp.getTime()) / 60000));
+}
+
+export function treatmentWindowEndsAt(lastKnownWell: Date, protocol: Protocol = getActiveProtocol()): Date {
+  return new Date(lastKnownWell.getTime() + protocol.treatmentWindowMinutes * 60000);
+}
+
+export type EligibilityCriterion = {
+  id: string;
+  label: string;
+  /**
+   * Inclusion and (absolute) exclusion criteria must all pass for eligibility.
+   * Relative contraindications are reported for clinical judgement but do not block.
+   */
+  kind: 'inclusion' | 'exclusion' | 'relative';
+  passed: boolean;
+  detail: string;
+};
+
+export type EligibilityResult = {
+  eligible: boolean;
+  criteria: EligibilityCriterion[];
+};
+
+/**
+ * Evaluates Tenecteplase eligibility deterministically.
+ *
+ * Every criterion is always evaluated so the caller can show the full checklist,
+ * and the patient is eligible only when all inclusion and exclusion criteria pass.
+ * Lab values that have not been recorded do not block treatment, but an unknown onset time does.
+ * The window and limits come from the site protocol.
+ */
+export function evaluateTenecteplaseEligibility(
+  input: PredictStrokeTypeInput,
+  strokeType: StrokeType,
+  protocol: Protocol = getActiveProtocol()
+): EligibilityResult {
+  const {
+    timeSinceOnset,
+    onsetUnknown,
+    systolicBloodPressure,
+    diastolicBloodPressure,
+    anticoagulantUse,
+    recentSurgery,
+    priorIntracranialHemorrhage,
+    recentStrokeOrHeadTrauma,
+    plateletCount,
+    bloodGlucose,
+    inr,
+  } = input;
+  const { treatmentWindowMinutes, bloodPressure, labs } = protocol;
+
+  const criteria: EligibilityCriterion[] = [
+    {
+      id: 'ischemic-diagnosis',
+      label: 'Stroke type is Ischemic',
+      kind: 'inclusion',
+      passed: strokeType === 'Ischemic',
+      detail: `Predicted stroke type: ${strokeType}.`,
+    },
+    {
+      id: 'onset-window',
+      label: `Last known well less than ${treatmentWindowMinutes} minutes ago`,
+      kind: 'inclusion',
+      passed:
+        !onsetUnknown &&
+        timeSinceOnset !== undefined &&
+        timeSinceOnset >= 0 &&
+        timeSinceOnset < treatmentWindowMinutes,
+      detail:
+        onsetUnknown || timeSinceOnset === undefined
+          ? 'Onset time unknown (wake-up stroke). Advanced imaging is needed to assess eligibility.'
+          : timeSinceOnset < treatmentWindowMinutes
+          ? `Time since last known well: ${timeSinceOnset} minutes (${treatmentWindowMinutes - timeSinceOnset} minutes remaining).`
+          : `Time since last known well: ${timeSinceOnset} minutes (window closed).`,
+    },
+    {
+      id: 'systolic-bp',
+      label: `Systolic BP not above ${bloodPressure.maxSystolicForLysis} mmHg`,
+      kind: 'exclusion',
+      passed: systolicBloodPressure === undefined || systolicBloodPressure <= bloodPressure.maxSystolicForLysis,
+      detail:
+        systolicBloodPressure === undefined
+          ? 'Systolic BP not recorded.'
+          : `Systolic BP: ${systolicBloodPressure} mmHg.`,
+    },
+    {
+      id: 'diastolic-bp',
+      label: `Diastolic BP not above ${bloodPressure.maxDiastolicForLysis} mmHg`,
+      kind: 'exclusion',
+      passed: diastolicBloodPressure <= bloodPressure.maxDiastolicForLysis,
+      detail: `Diastolic BP: ${diastolicBloodPressure} mmHg.`,
+    },
+    {
+      id: 'prior-ich',
+      label: 'No prior intracranial hemorrhage',
+      kind: 'exclusion',
+      passed: !priorIntracranialHemorrhage,
+      detail: priorIntracranialHemorrhage ? 'History of intracranial hemorrhage.' : 'None reported.',
+    },
+    {
+      id: 'recent-stroke-or-head-trauma',
+      label: 'No ischemic stroke or significant head trauma in the last 3 months',
+      kind: 'exclusion',
+      passed: !recentStrokeOrHeadTrauma,
+      detail: recentStrokeOrHeadTrauma ? 'Recent stroke or head trauma reported.' : 'None reported.',
+    },
+    {
+      id: 'anticoagulant-use',
+      label: 'No current anticoagulant use',
+      kind: 'exclusion',
+      passed: !anticoagulantUse,
+      detail: anticoagulantUse ? 'Patient is taking an anticoagulant.' : 'None reported.',
+    },
+    {
+      id: 'platelet-count',
+      label: `Platelet count at least ${labs.minPlateletCount} x10³/µL`,
+      kind: 'exclusion',
+      passed: plateletCount === undefined || plateletCount >= labs.minPlateletCount,
+      detail:
+        plateletCount === undefined
+          ? 'Platelet count not recorded.'
+          : `Platelet count: ${plateletCount} x10³/µL.`,
+    },
+    {
+      id: 'inr',
+      label: `INR not above ${labs.maxInr}`,
+      kind: 'exclusion',
+      passed: inr === undefined || inr <= labs.maxInr,
+      detail: inr === undefined ? 'INR not recorded.' : `INR: ${inr}.`,
+    },
+    {
+      id: 'blood-glucose',
+      label: `Blood glucose between ${labs.minGlucose} and ${labs.maxGlucose} mg/dL`,
+      kind: 'exclusion',
+      passed: bloodGlucose === undefined || (bloodGlucose >= labs.minGlucose && bloodGlucose <= labs.maxGlucose),
+      detail: bloodGlucose === undefined ? 'Blood glucose not recorded.' : `Blood glucose: ${bloodGlucose} mg/dL.`,
+    },
+    {
+      id: 'recent-surgery',
+      label: 'No major surgery in the last 14 days',
+      kind: 'relative',
+      passed: !recentSurgery,
+      detail: recentSurgery
+        ? 'Recent major surgery reported. Weigh bleeding risk against benefit.'
+        : 'None reported.',
+    },
+  ];
+
+  return {
+    eligible: criteria
+      .filter((criterion) => criterion.kind !== 'relative')
+      .every((criterion) => criterion.passed),
+    criteria,
+  };
+}
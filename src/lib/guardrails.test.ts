@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { assessClinicalFindings } from '@/lib/assessment';
+import { UNREADABLE_ANSWER, enforceGuardrails, findDiscrepancies } from '@/lib/guardrails';
+import { baseInput } from '@/test/fixtures';
+
+/** Siriraj -3 and Guy's Hospital 2.7: both point to infarction. */
+const ischemicInput = baseInput;
+
+const enforce = (
+  input: PredictStrokeTypeInput,
+  prediction: Parameters<typeof enforceGuardrails>[2],
+  retry?: Parameters<typeof enforceGuardrails>[3]
+) => enforceGuardrails(input, assessClinicalFindings(input), prediction, retry);
+
+describe('enforceGuardrails', () => {
+  it('leaves an answer consistent with the clinical scores alone', () => {
+    const { prediction, warnings } = enforce(ischemicInput, { strokeType: 'Ischemic', confidence: 0.9 });
+
+    expect(prediction).toEqual({ strokeType: 'Ischemic', confidence: 0.9 });
+    expect(warnings).toEqual([]);
+  });
+
+  it('overrides a contradicting stroke type and the confidence that came with it', () => {
+    const { prediction, warnings } = enforce(ischemicInput, { strokeType: 'Hemorrhagic', confidence: 0.95 });
+
+    expect(prediction).toEqual({ strokeType: 'Ischemic', confidence: 0.85 });
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].code).toBe('stroke-type-overridden');
+    expect(warnings[0].message).toContain('95% confidence');
+    expect(warnings[0].message).toContain('replaced by 85%');
+  });
+
+  it('takes the override confidence from the Siriraj margin', () => {
+    // Siriraj -1.5 (vomiting, DBP 85): the medium band.
+    const input = { ...ischemicInput, vomiting: true, diastolicBloodPressure: 85 };
+
+    expect(enforce(input, { strokeType: 'Hemorrhagic', confidence: 0.95 }).prediction.confidence).toBe(0.6);
+  });
+
+  it('records a retry and a failed retry', () => {
+    const { warnings } = enforce(
+      ischemicInput,
+      { strokeType: 'Ischemic', confidence: 0.9 },
+      { reason: 'contradiction', discrepancies: ['The stroke type was Hemorrhagic.'], failure: 'request timed out' }
+    );
+
+    expect(warnings.map((warning) => warning.code)).toEqual(['model-retried', 'model-retry-failed']);
+    expect(warnings[0].message).toContain('The stroke type was Hemorrhagic.');
+  });
+
+  it('says an unreadable first answer was retried without calling it a contradiction', () => {
+    const { warnings } = enforce(
+      ischemicInput,
+      { strokeType: 'Ischemic', confidence: 0.9 },
+      { reason: 'unreadable-answer', discrepancies: [UNREADABLE_ANSWER] }
+    );
+
+    expect(warnings.map((warning) => warning.code)).toEqual(['model-retried']);
+    expect(warnings[0].message).toContain('could not be read');
+    expect(warnings[0].message).not.toContain('contradicted');
+  });
+
+  it('does not override the stroke type read from a CT scan, but flags a discordant clinical score', () => {
+    const input = { ...ischemicInput, ctScanImage: 'data:image/png;base64,iVBORw0KGgo=' };
+    const { prediction, warnings } = enforce(input, { strokeType: 'Hemorrhagic', confidence: 0.95 });
+
+    expect(prediction).toEqual({ strokeType: 'Hemorrhagic', confidence: 0.95 });
+    expect(warnings.map((warning) => warning.code)).toEqual(['ct-clinical-discordance']);
+    expect(findDiscrepancies(assessClinicalFindings(input), prediction)).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { ClinicalAssessment, ModelPrediction } from '@/lib/assessment';
+import type { StrokeType } from '@/lib/eligibility';
+import { computeSiriraj } from '@/lib/scores/siriraj';
+
+export type GuardrailWarningCode =
+  | 'model-retried'
+  | 'model-retry-failed'
+  | 'stroke-type-overridden'
+  | 'ct-clinical-discordance';
+
+export type GuardrailWarning = {
+  code: GuardrailWarningCode;
+  message: string;
+};
+
+/** The stroke type the clinical scores dictate, or undefined on the CT path where the model reads the image. */
+const requiredStrokeType = (assessment: ClinicalAssessment): StrokeType | undefined =>
+  assessment.agreement?.interpretation;
+
+/**
+ * The confidence the prompt's table gives a diagnosis from the clinical scores, at the bottom of the band
+ * for the Siriraj score's distance from zero. Used in place of the confidence of an overridden answer.
+ */
+const clinicalScoreConfidence = (sirirajScore: number) => {
+  const margin = Math.abs(sirirajScore);
+  return margin > 2 ? 0.85 : margin >= 1 ? 0.6 : 0.4;
+};
+
+/** The discrepancy recorded when the model gave no answer matching the output schema. */
+export const UNREADABLE_ANSWER = 'The answer could not be read as the required JSON object.';
+
+export type RetryOutcome = {
+  /** Why the model was asked again: its first answer could not be read, or it contradicted the findings. */
+  reason: 'unreadable-answer' | 'contradiction';
+  /** What was wrong with the first answer, which the model was asked to correct. */
+  discrepancies: string[];
+  /** Why the second answer could not be used, when the first answer was kept instead. */
+  failure?: string;
+};
+
+/**
+ * Every way the model's answer contradicts the deterministic findings, phrased so that both the
+ * model, when asked to correct itself, and the clinician can read them. Empty when the answer is consistent.
+ */
+export function findDiscrepancies(assessment: ClinicalAssessment, prediction: ModelPrediction): string[] {
+  const discrepancies: string[] = [];
+  const required = requiredStrokeType(assessment);
+
+  if (required && prediction.strokeType !== required) {
+    discrepancies.push(
+      `The stroke type was ${prediction.strokeType}, but no CT scan was provided and the combined Siriraj and Guy's Hospital interpretation is ${required}.`
+    );
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Makes the prediction consistent with the deterministic findings, whatever the model answered.
+ * A stroke type contradicting the clinical scores is overridden, and so is the confidence that came
+ * with it, which belonged to the other diagnosis. Every correction is recorded as a warning, as is
+ * any earlier answer that had to be retried: a contradiction must never pass silently.
+ */
+export function enforceGuardrails(
+  input: PredictStrokeTypeInput,
+  assessment: ClinicalAssessment,
+  prediction: ModelPrediction,
+  retry?: RetryOutcome
+): { prediction: ModelPrediction; warnings: GuardrailWarning[] } {
+  const warnings: GuardrailWarning[] = [];
+  let { strokeType, confidence } = prediction;
+
+  if (retry) {
+    warnings.push({
+      code: 'model-retried',
+      message:
+        retry.reason === 'unreadable-answer'
+          ? "The model's first answer could not be read as the required JSON object, so it was asked again."
+          : `The model's first answer contradicted the clinical findings and it was asked again: ${retry.discrepancies.join(' ')}`,
+    });
+  }
+  if (retry?.failure) {
+    warnings.push({
+      code: 'model-retry-failed',
+      message: `The second answer could not be used (${retry.failure}), so the first answer was kept and checked against the clinical findings.`,
+    });
+  }
+
+  const required = requiredStrokeType(assessment);
+  if (required && strokeType !== required) {
+    const sirirajScore = assessment.siriraj?.score ?? 0;
+    confidence = clinicalScoreConfidence(sirirajScore);
+    warnings.push({
+      code: 'stroke-type-overridden',
+      message: `The model answered ${strokeType} (${Math.round(prediction.confidence * 100)}% confidence), contradicting the clinical score interpretation (${required}). The stroke type has been set to ${required}, and the model's confidence replaced by ${Math.round(confidence * 100)}%, the lowest the protocol gives a Siriraj score of ${sirirajScore.toFixed(2)}.`,
+    });
+    strokeType = required;
+  }
+
+  if (input.ctScanImage && strokeType !== 'Uncertain') {
+    // The CT reading stands, but a clinical score pointing the other way deserves a second look.
+    const { score, interpretation } = computeSiriraj(input);
+    if (interpretation !== 'Uncertain' && interpretation !== strokeType) {
+      warnings.push({
+        code: 'ct-clinical-discordance',
+        message: `The CT reading (${strokeType}) disagrees with the Siriraj score (${score.toFixed(2)}, ${interpretation}). Confirm the CT interpretation with a radiologist.`,
+      });
+    }
+  }
+
+  return { prediction: { ...prediction, strokeType, confidence }, warnings };
+}
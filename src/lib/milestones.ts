@@ -0,0 +1,69 @@
+export type MilestoneId = 'arrival' | 'ctStarted' | 'ctInterpreted' | 'needle';
+
+/** ISO timestamps for each milestone that has been reached. */
+export type Milestones = Partial<Record<MilestoneId, string>>;
+
+export type MilestoneDefinition = {
+  id: MilestoneId;
+  label: string;
+  /** Target minutes from arrival (door), per AHA/ASA quality benchmarks. */
+  targetMinutes?: number;
+};
+
+export const MILESTONES: MilestoneDefinition[] = [
+  { id: 'arrival', label: 'Door (arrival)' },
+  { id: 'ctStarted', label: 'Door-to-CT', targetMinutes: 25 },
+  { id: 'ctInterpreted', label: 'Door-to-CT interpretation', targetMinutes: 45 },
+  { id: 'needle', label: 'Door-to-needle', targetMinutes: 60 },
+];
+
+export function minutesBetween(from: string | Date, to: string | Date): number {
+  return Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+}
+
+/** Minutes from arrival to the given milestone, or undefined if either has not been reached. */
+export function doorToMilestoneMinutes(milestones: Milestones, id: MilestoneId): number | undefined {
+  const arrival = milestones.arrival;
+  const reached = milestones[id];
+  if (!arrival || !reached) {
+    return undefined;
+  }
+  return minutesBetween(arrival, reached);
+}
+
+/** Formats a number of seconds as HH:MM:SS. */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':');
+}
+
+const csvEscape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/** Serialises the case timeline as CSV for quality audits. */
+export function milestonesToCsv(milestones: Milestones, lastKnownWell?: string): string {
+  const rows = [['milestone', 'timestamp', 'minutes_from_door', 'target_minutes', 'target_met']];
+
+  if (lastKnownWell) {
+    rows.push(['Last known well', lastKnownWell, '', '', '']);
+  }
+
+  for (const milestone of MILESTONES) {
+    const timestamp = milestones[milestone.id];
+    const minutes = doorToMilestoneMinutes(milestones, milestone.id);
+    rows.push([
+      milestone.label,
+      timestamp ?? '',
+      minutes === undefined ? '' : String(minutes),
+      milestone.targetMinutes === undefined ? '' : String(milestone.targetMinutes),
+      minutes === undefined || milestone.targetMinutes === undefined
+        ? ''
+        : minutes <= milestone.targetMinutes
+        ? 'yes'
+        : 'no',
+    ]);
+  }
+
+  return rows.map((row) => row.map(csvEscape).join(',')).join('\n');
+}
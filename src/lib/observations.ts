@@ -0,0 +1,112 @@
+import type { BloodPressureReading } from '@/lib/blood-pressure';
+import type { Protocol } from '@/lib/protocols';
+
+/** One set of observations. Anything not measured at the time is left out. */
+export type Observation = {
+  takenAt: string;
+  systolic?: number;
+  diastolic?: number;
+  heartRate?: number;
+  /** Glasgow Coma Scale, 3-15. */
+  gcs?: number;
+  /** NIH Stroke Scale total, 0-42. */
+  nihss?: number;
+};
+
+/** A rise in NIHSS of this many points suggests haemorrhagic transformation or another deterioration. */
+export const NIHSS_DETERIORATION_POINTS = 4;
+/** A fall in GCS of this many points is treated as a neurological deterioration. */
+export const GCS_DETERIORATION_POINTS = 2;
+
+export type ObservationSchedule = Protocol['observationSchedule'];
+
+/** Observations in the order they were taken. */
+export const sortObservations = (observations: Observation[]) =>
+  [...observations].sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+
+/** The interval between observations this long after the schedule started, or undefined once it has ended. */
+function intervalAt(schedule: ObservationSchedule, minutesSinceStart: number): number | undefined {
+  let phaseEnd = 0;
+  for (const phase of schedule) {
+    phaseEnd += phase.forMinutes;
+    if (minutesSinceStart < phaseEnd) {
+      return phase.everyMinutes;
+    }
+  }
+  return undefined;
+}
+
+/** A schedule duration as it is written in a protocol: whole hours in hours, anything else in minutes. */
+export const formatScheduleDuration = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+
+/** How long the schedule runs in total, from its start to the end of its last phase. */
+export const observationScheduleMinutes = (schedule: ObservationSchedule) =>
+  schedule.reduce((total, phase) => total + phase.forMinutes, 0);
+
+/** The schedule written out, e.g. "every 15 minutes for 2 hours, then every 30 minutes for 6 hours". */
+export function formatObservationSchedule(schedule: ObservationSchedule): string {
+  return schedule
+    .map(({ everyMinutes, forMinutes }) => {
+      const interval = everyMinutes === 60 ? 'hour' : formatScheduleDuration(everyMinutes);
+      return `every ${interval} for ${formatScheduleDuration(forMinutes)}`;
+    })
+    .join(', then ');
+}
+
+/**
+ * When the next observations are due: one interval after the last ones, or after the start if none
+ * have been taken yet. The interval is the one the schedule sets at that point, e.g. every 15 minutes
+ * for the first 2 hours after thrombolysis. Undefined once the schedule has ended.
+ */
+export function nextObservationDue(
+  schedule: ObservationSchedule,
+  startedAt: string,
+  observations: Observation[]
+): Date | undefined {
+  const start = new Date(startedAt).getTime();
+  const last = sortObservations(observations).at(-1);
+  const from = last ? Math.max(start, new Date(last.takenAt).getTime()) : start;
+  const interval = intervalAt(schedule, (from - start) / 60000);
+  return interval === undefined ? undefined : new Date(from + interval * 60000);
+}
+
+export type DeteriorationAlert = {
+  takenAt: string;
+  message: string;
+};
+
+/**
+ * Every observation showing a neurological deterioration against the baseline: a rise in NIHSS of
+ * NIHSS_DETERIORATION_POINTS or more, or a fall in GCS of GCS_DETERIORATION_POINTS or more. The NIHSS
+ * baseline is the one from the assessment when there is one; otherwise the first recorded value is used.
+ */
+export function findDeterioration(observations: Observation[], baselineNihss?: number): DeteriorationAlert[] {
+  const sorted = sortObservations(observations);
+  const nihssBaseline = baselineNihss ?? sorted.find((observation) => observation.nihss !== undefined)?.nihss;
+  const gcsBaseline = sorted.find((observation) => observation.gcs !== undefined)?.gcs;
+  const alerts: DeteriorationAlert[] = [];
+
+  for (const { takenAt, nihss, gcs } of sorted) {
+    if (nihss !== undefined && nihssBaseline !== undefined && nihss - nihssBaseline >= NIHSS_DETERIORATION_POINTS) {
+      alerts.push({
+        takenAt,
+        message: `NIHSS rose from ${nihssBaseline} to ${nihss} (+${nihss - nihssBaseline}). Suspect haemorrhagic transformation: stop any thrombolytic infusion and arrange an urgent CT.`,
+      });
+    }
+    if (gcs !== undefined && gcsBaseline !== undefined && gcsBaseline - gcs >= GCS_DETERIORATION_POINTS) {
+      alerts.push({
+        takenAt,
+        message: `GCS fell from ${gcsBaseline} to ${gcs}. Assess airway and arrange an urgent CT.`,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+/** The blood pressures recorded in the observation log, as readings. */
+export const observedBloodPressures = (observations: Observation[]): BloodPressureReading[] =>
+  observations.flatMap(({ takenAt, systolic, diastolic }) =>
+    systolic !== undefined && diastolic !== undefined ? [{ takenAt, systolic, diastolic }] : []
+  );
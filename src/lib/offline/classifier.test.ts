@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { DEFAULT_OFFLINE_MODEL, extractFeatures, predictHemorrhageProbability } from '@/lib/offline/classifier';
+import { computeSiriraj } from '@/lib/scores/siriraj';
+import { baseInput } from '@/test/fixtures';
+
+const logistic = (logit: number) => 1 / (1 + Math.exp(-logit));
+
+describe('predictHemorrhageProbability', () => {
+  it.each([
+    ['an alert patient', baseInput],
+    [
+      'a comatose patient with vomiting and headache',
+      { ...baseInput, levelOfConsciousness: 'Comatose', vomiting: true, headache: true },
+    ],
+    ['a drowsy diabetic', { ...baseInput, levelOfConsciousness: 'Drowsy', historyDiabetes: true }],
+    ['a patient with claudication', { ...baseInput, historyAnginaOrClaudication: true, diastolicBloodPressure: 115 }],
+  ] as [string, PredictStrokeTypeInput][])('uses the Siriraj score as the logit for %s', (_, patient) => {
+    expect(predictHemorrhageProbability(patient)).toBeCloseTo(logistic(computeSiriraj(patient).score), 10);
+  });
+
+  it('counts atheroma markers as the Siriraj score does', () => {
+    expect(extractFeatures({ ...baseInput, historyHypertension: true, historySmoking: true }).atheroma).toBe(0);
+    expect(extractFeatures({ ...baseInput, historyDiabetes: true }).atheroma).toBe(1);
+    expect(extractFeatures({ ...baseInput, historyAnginaOrClaudication: true }).atheroma).toBe(1);
+  });
+
+  it('weights every feature it extracts', () => {
+    expect(Object.keys(DEFAULT_OFFLINE_MODEL.weights).sort()).toEqual(Object.keys(extractFeatures(baseInput)).sort());
+  });
+});
@@ -0,0 +1,49 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { CONSCIOUSNESS_POINTS, SIRIRAJ_WEIGHTS, hasAtheroma } from '@/lib/scores/siriraj';
+
+/** The findings the model weighs: the Siriraj Stroke Score variables. */
+export type OfflineFeature = Exclude<keyof typeof SIRIRAJ_WEIGHTS, 'constant'>;
+
+/** A logistic regression over structured symptoms predicting the probability of hemorrhage. */
+export type LogisticModel = {
+  version: string;
+  description: string;
+  intercept: number;
+  weights: Partial<Record<OfflineFeature, number>>;
+};
+
+const { constant: sirirajConstant, ...sirirajFeatureWeights } = SIRIRAJ_WEIGHTS;
+
+/**
+ * The bundled on-device model. Its coefficients are the Siriraj Stroke Score weights used as a
+ * logit, so it agrees with the deterministic score until coefficients fitted on local labelled
+ * cases are substituted.
+ */
+export const DEFAULT_OFFLINE_MODEL: LogisticModel = {
+  version: 'siriraj-logit-2',
+  description: 'Siriraj Stroke Score weights used as a logistic predictor of hemorrhage.',
+  intercept: sirirajConstant,
+  weights: sirirajFeatureWeights,
+};
+
+export function extractFeatures(input: PredictStrokeTypeInput): Record<OfflineFeature, number> {
+  return {
+    consciousness: CONSCIOUSNESS_POINTS[input.levelOfConsciousness],
+    vomiting: Number(input.vomiting),
+    headache: Number(input.headache),
+    diastolicBloodPressure: input.diastolicBloodPressure,
+    atheroma: Number(hasAtheroma(input)),
+  };
+}
+
+export function predictHemorrhageProbability(
+  input: PredictStrokeTypeInput,
+  model: LogisticModel = DEFAULT_OFFLINE_MODEL
+): number {
+  const features = extractFeatures(input);
+  const logit = Object.entries(model.weights).reduce(
+    (sum, [feature, weight]) => sum + weight * features[feature as OfflineFeature],
+    model.intercept
+  );
+  return 1 / (1 + Math.exp(-logit));
+}
@@ -0,0 +1,39 @@
+/**
+ * Cases triaged offline form the outbox: they are saved with `pendingSync` and replayed
+ * against the online flow by `syncOfflineCases`. Where the browser supports Background Sync,
+ * the service worker wakes open pages to replay the outbox as soon as connectivity returns,
+ * even if the `online` event never fires (e.g. the tab was in the background).
+ */
+export const OUTBOX_SYNC_TAG = 'case-outbox';
+
+/** The message the service worker posts to its clients when the outbox should be replayed. */
+export const OUTBOX_REPLAY_MESSAGE = 'replay-outbox';
+
+/** Background Sync is not yet part of TypeScript's DOM typings. */
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/** Asks the service worker to replay the outbox once the device is back online. */
+export async function requestOutboxSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+  const registration: SyncCapableRegistration = await navigator.serviceWorker.ready;
+  // Without Background Sync the `online` event in ConnectivityIndicator replays the outbox.
+  await registration.sync?.register(OUTBOX_SYNC_TAG);
+}
+
+/** Calls `replay` whenever the service worker requests an outbox replay. Returns an unsubscribe function. */
+export function onOutboxReplayRequested(replay: () => void): () => void {
+  if (!('serviceWorker' in navigator)) {
+    return () => {};
+  }
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_REPLAY_MESSAGE) {
+      replay();
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,42 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { PredictionResult } from '@/types';
+import { assessClinicalFindings, finalizePrediction } from '@/lib/assessment';
+import { DISAGREEMENT_MAX_CONFIDENCE } from '@/lib/scores/agreement';
+import { DEFAULT_OFFLINE_MODEL, predictHemorrhageProbability } from '@/lib/offline/classifier';
+import type { Calibration } from '@/lib/calibration';
+
+/** The on-device classifier already outputs a probability, so its confidence is used as is. */
+const OFFLINE_CALIBRATION: Calibration = {
+  version: DEFAULT_OFFLINE_MODEL.version,
+  description: DEFAULT_OFFLINE_MODEL.description,
+  parameters: { method: 'identity' },
+};
+
+/**
+ * Triage entirely in the browser: the deterministic scores decide the stroke type and the
+ * on-device classifier supplies the confidence. CT images cannot be read offline, so the
+ * clinical scores are always used.
+ */
+export function predictStrokeTypeOffline(input: PredictStrokeTypeInput): PredictionResult {
+  const clinicalInput = { ...input, ctScanImage: undefined };
+  const assessment = assessClinicalFindings(clinicalInput);
+  const strokeType = assessment.agreement!.interpretation;
+
+  const hemorrhageProbability = predictHemorrhageProbability(clinicalInput);
+  const confidence =
+    strokeType === 'Hemorrhagic'
+      ? hemorrhageProbability
+      : strokeType === 'Ischemic'
+      ? 1 - hemorrhageProbability
+      : Math.min(Math.max(hemorrhageProbability, 1 - hemorrhageProbability), DISAGREEMENT_MAX_CONFIDENCE);
+
+  return {
+    ...finalizePrediction(
+      clinicalInput,
+      assessment,
+      { strokeType, confidence },
+      { calibration: OFFLINE_CALIBRATION }
+    ),
+    offline: true,
+  };
+}
@@ -0,0 +1,23 @@
+import { predictStrokeType, type PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { PredictionResult } from '@/types';
+import { predictStrokeTypeOffline } from '@/lib/offline/predict-offline';
+
+/** Server actions that cannot reach the server reject with a TypeError from fetch. */
+const isNetworkFailure = (error: unknown) => !navigator.onLine || error instanceof TypeError;
+
+/** Runs the online flow, falling back to on-device triage when the network is down. */
+export async function predictWithOfflineFallback(input: PredictStrokeTypeInput): Promise<PredictionResult> {
+  if (!navigator.onLine) {
+    return predictStrokeTypeOffline(input);
+  }
+
+  try {
+    return await predictStrokeType(input);
+  } catch (error) {
+    if (!isNetworkFailure(error)) {
+      throw error;
+    }
+    console.warn('Prediction server unreachable, using offline triage:', error);
+    return predictStrokeTypeOffline(input);
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CaseStore } from '@/lib/cases';
+import { onCaseSynced, syncOfflineCases } from '@/lib/offline/sync';
+import type { CaseRecord, PredictionResult } from '@/types';
+
+const { predictStrokeType } = vi.hoisted(() => ({ predictStrokeType: vi.fn() }));
+vi.mock('@/ai/flows/predict-stroke-type', () => ({ predictStrokeType }));
+
+const offlineResult = { strokeType: 'Ischemic', confidence: 0.6, offline: true } as PredictionResult;
+const onlineResult = { strokeType: 'Ischemic', confidence: 0.9 } as PredictionResult;
+
+/** Only the fields the sync reads and writes; the rest of the record is carried through untouched. */
+const pendingCase = (id: string) =>
+  ({ id, predictionInput: {}, result: offlineResult, pendingSync: true, milestones: {} }) as unknown as CaseRecord;
+
+const createMemoryStore = (records: CaseRecord[]): CaseStore & { records: Map<string, CaseRecord> } => {
+  const stored = new Map(records.map((record) => [record.id, record]));
+  return {
+    records: stored,
+    list: async () => [...stored.values()],
+    get: async (id) => stored.get(id),
+    save: async (record) => {
+      stored.set(record.id, record);
+    },
+    delete: async (id) => {
+      stored.delete(id);
+    },
+  };
+};
+
+describe('syncOfflineCases', () => {
+  beforeEach(() => {
+    predictStrokeType.mockReset().mockResolvedValue(onlineResult);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('replaces the offline result and keeps it for audit', async () => {
+    const store = createMemoryStore([pendingCase('a'), { ...pendingCase('b'), pendingSync: false }]);
+
+    expect(await syncOfflineCases(store)).toBe(1);
+    expect(store.records.get('a')).toMatchObject({ result: onlineResult, offlineResult, pendingSync: false });
+    expect(predictStrokeType).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps edits made while the online flow was running', async () => {
+    const store = createMemoryStore([pendingCase('a')]);
+    predictStrokeType.mockImplementation(async () => {
+      const current = await store.get('a');
+      await store.save({ ...current!, milestones: { arrival: '2026-01-01T10:00:00.000Z' } });
+      return onlineResult;
+    });
+
+    await syncOfflineCases(store);
+
+    expect(store.records.get('a')).toMatchObject({
+      result: onlineResult,
+      pendingSync: false,
+      milestones: { arrival: '2026-01-01T10:00:00.000Z' },
+    });
+  });
+
+  it('does not bring back a case deleted while the online flow was running', async () => {
+    const store = createMemoryStore([pendingCase('a')]);
+    predictStrokeType.mockImplementation(async () => {
+      await store.delete('a');
+      return onlineResult;
+    });
+
+    expect(await syncOfflineCases(store)).toBe(0);
+    expect(store.records.has('a')).toBe(false);
+  });
+
+  it('tells listeners about each synced case until they unsubscribe', async () => {
+    const listener = vi.fn();
+    const unsubscribe = onCaseSynced(listener);
+
+    await syncOfflineCases(createMemoryStore([pendingCase('a')]));
+    unsubscribe();
+    await syncOfflineCases(createMemoryStore([pendingCase('b')]));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 'a', result: onlineResult, pendingSync: false }));
+  });
+
+  it('leaves a case pending when the online flow fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    predictStrokeType.mockRejectedValue(new Error('Service unavailable'));
+    const store = createMemoryStore([pendingCase('a')]);
+
+    expect(await syncOfflineCases(store)).toBe(0);
+    expect(store.records.get('a')).toMatchObject({ result: offlineResult, pendingSync: true });
+  });
+});
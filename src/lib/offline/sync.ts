@@ -0,0 +1,63 @@
+import { predictStrokeType } from '@/ai/flows/predict-stroke-type';
+import type { CaseStore } from '@/lib/cases';
+import type { CaseRecord } from '@/types';
+
+type SyncListener = (record: CaseRecord) => void;
+
+let inFlight: Promise<number> | undefined;
+const listeners = new Set<SyncListener>();
+
+/**
+ * Re-runs cases triaged offline through the online flow once connectivity returns.
+ * The offline result is kept on the case for audit. Returns the number of cases synced.
+ */
+export function syncOfflineCases(store: CaseStore): Promise<number> {
+  // Several components may notice the connection return at once; share a single sync.
+  inFlight ??= syncPendingCases(store).finally(() => {
+    inFlight = undefined;
+  });
+  return inFlight;
+}
+
+/**
+ * Calls `listener` with each case as it is saved with its online result. Pages holding a case must
+ * swap in the synced record, or their next edit writes the offline result back. Returns an
+ * unsubscribe function.
+ */
+export function onCaseSynced(listener: SyncListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function syncPendingCases(store: CaseStore): Promise<number> {
+  const pending = (await store.list()).filter((record) => record.pendingSync);
+  let synced = 0;
+
+  for (const { id, predictionInput, image } of pending) {
+    try {
+      const result = await predictStrokeType({ ...predictionInput, ctScanImage: image });
+      // The case may have been edited, synced elsewhere or deleted while the flow ran: re-read it and
+      // change only what the sync owns.
+      const current = await store.get(id);
+      if (!current?.pendingSync) {
+        continue;
+      }
+      const updated: CaseRecord = {
+        ...current,
+        result,
+        offlineResult: current.result,
+        pendingSync: false,
+        updatedAt: new Date().toISOString(),
+      };
+      await store.save(updated);
+      listeners.forEach((listener) => listener(updated));
+      synced++;
+    } catch (error) {
+      console.error(`Failed to sync offline case ${id}:`, error);
+    }
+  }
+
+  return synced;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { symptomSchema } from '@/types';
+import { evaluateTenecteplaseEligibility } from '@/lib/eligibility';
+import { toPredictionInput } from '@/lib/prediction-input';
+import { getActiveProtocol } from '@/lib/protocols';
+import { EMPTY_RACE } from '@/lib/scores/race';
+
+/** A submitted form with the optional numbers left blank. */
+const formValues = symptomSchema.parse({
+  onsetUnknown: true,
+  armWeakness: 'Left',
+  race: EMPTY_RACE,
+  levelOfConsciousness: 'Conscious',
+  diastolicBloodPressure: '90',
+  systolicBloodPressure: '',
+  plateletCount: '',
+  bloodGlucose: '',
+  inr: '',
+});
+
+describe('toPredictionInput', () => {
+  it('leaves blank blood pressure and labs as not recorded', () => {
+    const input = toPredictionInput(formValues);
+
+    expect(input.systolicBloodPressure).toBeUndefined();
+    expect(input.plateletCount).toBeUndefined();
+    expect(input.bloodGlucose).toBeUndefined();
+    expect(input.inr).toBeUndefined();
+  });
+
+  it('keeps a recorded 0', () => {
+    const input = toPredictionInput({ ...formValues, systolicBloodPressure: 0, plateletCount: 0, bloodGlucose: 0, inr: 0 });
+
+    expect(input.systolicBloodPressure).toBe(0);
+    expect(input.plateletCount).toBe(0);
+    expect(input.bloodGlucose).toBe(0);
+    expect(input.inr).toBe(0);
+  });
+
+  it('excludes tenecteplase for a platelet count of 0', () => {
+    const input = toPredictionInput({ ...formValues, plateletCount: 0 });
+    const result = evaluateTenecteplaseEligibility(input, 'Ischemic', getActiveProtocol());
+
+    expect(result.eligible).toBe(false);
+    expect(result.criteria.find((criterion) => criterion.id === 'platelet-count')?.passed).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { SymptomFormValues } from '@/types';
+import { minutesSince } from '@/lib/eligibility';
+
+/** A blank optional number is not recorded; 0 is a value like any other. */
+const recorded = (value: number | '' | undefined) => (value === '' || value === undefined ? undefined : Number(value));
+
+/** Maps the symptom form onto the prediction flow's input. */
+export function toPredictionInput(data: SymptomFormValues, imageDataUrl?: string): PredictStrokeTypeInput {
+  return {
+    ctScanImage: imageDataUrl,
+    // Minutes are computed at submission so the value is not stale by the time the form is sent.
+    timeSinceOnset: !data.onsetUnknown && data.lastKnownWell ? minutesSince(data.lastKnownWell) : undefined,
+    lastKnownWell: !data.onsetUnknown && data.lastKnownWell ? data.lastKnownWell.toISOString() : undefined,
+    onsetUnknown: data.onsetUnknown,
+    faceDroop: data.faceDroop,
+    speechSlurred: data.speechSlurred,
+    armWeakness: data.armWeakness,
+    nihss: data.nihss,
+    race: data.race,
+    systolicBloodPressure: recorded(data.systolicBloodPressure),
+    historyHypertension: data.historyHypertension,
+    historyDiabetes: data.historyDiabetes,
+    historySmoking: data.historySmoking,
+    levelOfConsciousness: data.levelOfConsciousness,
+    vomiting: data.vomiting,
+    headache: data.headache,
+    diastolicBloodPressure: Number(data.diastolicBloodPressure),
+    lossOfConsciousnessAtOnset: data.lossOfConsciousnessAtOnset,
+    neckStiffness: data.neckStiffness,
+    bilateralExtensorPlantars: data.bilateralExtensorPlantars,
+    historyAnginaOrClaudication: data.historyAnginaOrClaudication,
+    previousStrokeOrTia: data.previousStrokeOrTia,
+    heartDisease: data.heartDisease,
+    anticoagulantUse: data.anticoagulantUse,
+    recentSurgery: data.recentSurgery,
+    priorIntracranialHemorrhage: data.priorIntracranialHemorrhage,
+    recentStrokeOrHeadTrauma: data.recentStrokeOrHeadTrauma,
+    plateletCount: recorded(data.plateletCount),
+    bloodGlucose: recorded(data.bloodGlucose),
+    inr: recorded(data.inr),
+  };
+}
@@ -0,0 +1,19 @@
+const PRINTING_CLASS = 'printing-element';
+const PRINT_TARGET_ATTRIBUTE = 'data-print-target';
+
+/**
+ * Prints one element of the page on its own, using the print styles in globals.css.
+ * The element may be hidden on screen, so a printout can be laid out differently from the page.
+ */
+export function printElement(element: HTMLElement) {
+  element.setAttribute(PRINT_TARGET_ATTRIBUTE, '');
+  document.body.classList.add(PRINTING_CLASS);
+
+  const cleanUp = () => {
+    element.removeAttribute(PRINT_TARGET_ATTRIBUTE);
+    document.body.classList.remove(PRINTING_CLASS);
+    window.removeEventListener('afterprint', cleanUp);
+  };
+  window.addEventListener('afterprint', cleanUp);
+  window.print();
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { actionSectionSchema, placeholdersIn, resolvePlaceholder, type ActionKey } from '@/lib/actions';
+import { doseParametersSchema } from '@/lib/dosing';
+import defaultProtocol from '@/lib/protocols/sites/default.json';
+
+const actionPlanTemplateSchema = z.object({
+  title: z.string(),
+  summary: z.string(),
+  sections: z.array(actionSectionSchema).min(1),
+});
+
+export const protocolSchema = z
+  .object({
+    /** Lowercase letters, digits and dashes; also the file name under sites/. */
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    name: z.string(),
+    version: z.string(),
+    description: z.string().optional(),
+    /** Minutes after last known well within which thrombolysis may be given. */
+    treatmentWindowMinutes: z.number().positive(),
+    /** The first-line thrombolytic, named in the action plans. */
+    thrombolytic: doseParametersSchema,
+    /** Other thrombolytics the site stocks, offered in the dosing calculator. */
+    alternativeThrombolytics: z.array(doseParametersSchema).default([]),
+    /** All in mmHg. */
+    bloodPressure: z.object({
+      /** Thrombolysis is contraindicated above these. */
+      maxSystolicForLysis: z.number().positive(),
+      maxDiastolicForLysis: z.number().positive(),
+      /** Targets to keep below after thrombolysis. */
+      postLysisSystolic: z.number().positive(),
+      postLysisDiastolic: z.number().positive(),
+      /** The systolic pressure above which a hemorrhagic stroke is treated. */
+      hemorrhageSystolic: z.number().positive(),
+      /** Below these, an ischemic stroke that is not lysed is left untreated. */
+      permissiveSystolic: z.number().positive(),
+      permissiveDiastolic: z.number().positive(),
+    }),
+    /** The antihypertensives suggested when a reading is above target, in order of preference. */
+    antihypertensives: z
+      .array(z.object({ drug: z.string(), steps: z.array(z.string()).min(1) }))
+      .min(1),
+    /**
+     * How often BP and neurological observations are due, phase by phase from the thrombolytic bolus:
+     * every `everyMinutes` for `forMinutes`, then the next phase.
+     */
+    observationSchedule: z
+      .array(z.object({ everyMinutes: z.number().positive(), forMinutes: z.number().positive() }))
+      .min(1),
+    labs: z.object({
+      /** x10^3/µL */
+      minPlateletCount: z.number().positive(),
+      maxInr: z.number().positive(),
+      /** mg/dL */
+      minGlucose: z.number().positive(),
+      maxGlucose: z.number().positive(),
+    }),
+    /**
+     * The plan for each outcome. Text may refer to the protocol's own values as placeholders,
+     * such as {thrombolytic.maxDoseMg}, so a dose or target is only ever written down once.
+     * {observationSchedule} writes out the observation schedule.
+     */
+    actionPlans: z.object({
+      hemorrhagic: actionPlanTemplateSchema,
+      ischemicEligible: actionPlanTemplateSchema,
+      ischemicNotEligible: actionPlanTemplateSchema,
+      uncertain: actionPlanTemplateSchema,
+    } satisfies Record<ActionKey, typeof actionPlanTemplateSchema>),
+  })
+  .superRefine((protocol, context) => {
+    const agents = [protocol.thrombolytic, ...protocol.alternativeThrombolytics].map((dose) => dose.agent);
+    if (new Set(agents).size !== agents.length) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['alternativeThrombolytics'],
+        message: 'Each thrombolytic agent may only be listed once.',
+      });
+    }
+
+    for (const [key, plan] of Object.entries(protocol.actionPlans)) {
+      const texts = [
+        plan.title,
+        plan.summary,
+        ...plan.sections.flatMap((section) => [
+          section.title,
+          ...section.steps.flatMap((step) => [step.label, step.detail]),
+        ]),
+      ];
+      for (const placeholder of texts.flatMap(placeholdersIn)) {
+        if (resolvePlaceholder(protocol, placeholder) === undefined) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['actionPlans', key],
+            message: `Unknown placeholder {${placeholder}}.`,
+          });
+        }
+      }
+    }
+  });
+
+export type Protocol = z.infer<typeof protocolSchema>;
+
+/** Every thrombolytic the protocol allows, first-line first. */
+export const protocolThrombolytics = (protocol: Protocol) => [
+  protocol.thrombolytic,
+  ...protocol.alternativeThrombolytics,
+];
+
+/**
+ * Every protocol shipped with the app. A site's protocol is added here (see `npm run protocol`)
+ * and selected for the deployment with NEXT_PUBLIC_PROTOCOL; each result records the protocol it followed.
+ */
+export const PROTOCOLS: Record<string, Protocol> = Object.fromEntries(
+  [defaultProtocol].map((protocol) => {
+    const parsed = protocolSchema.parse(protocol);
+    return [parsed.id, parsed];
+  })
+);
+
+export const DEFAULT_PROTOCOL_ID = 'default';
+
+export function getActiveProtocol(): Protocol {
+  const id = process.env.NEXT_PUBLIC_PROTOCOL || DEFAULT_PROTOCOL_ID;
+  const protocol = PROTOCOLS[id];
+  if (!protocol) {
+    throw new Error(`Unknown protocol "${id}". Known protocols: ${Object.keys(PROTOCOLS).join(', ')}.`);
+  }
+  return protocol;
+}
+
+/**
+ * The protocol a saved result followed, so its targets and schedule do not change with the deployment.
+ * Results saved before the id was recorded, or whose protocol is no longer shipped, use the active protocol.
+ */
+export function resolveProtocol(id?: string): Protocol {
+  return (id && PROTOCOLS[id]) || getActiveProtocol();
+}
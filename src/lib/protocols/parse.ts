@@ -0,0 +1,25 @@
+import { parse as parseYaml } from 'yaml';
+import { protocolSchema, type Protocol } from '@/lib/protocols';
+
+export type ProtocolFormat = 'json' | 'yaml';
+
+/** Parses and validates a site protocol, reporting each problem with its path in the file. */
+export function parseProtocol(text: string, format: ProtocolFormat): Protocol {
+  const data = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  const result = protocolSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`The protocol is invalid:\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+export function protocolFormatFromPath(path: string): ProtocolFormat {
+  if (path.endsWith('.json')) {
+    return 'json';
+  }
+  if (path.endsWith('.yaml') || path.endsWith('.yml')) {
+    return 'yaml';
+  }
+  throw new Error(`Cannot tell the protocol format of ${path}; use a .json, .yaml or .yml file.`);
+}
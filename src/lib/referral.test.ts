@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { symptomSchema, type StoredSymptomValues } from '@/types';
+import { referralInputSections } from '@/lib/referral';
+import { EMPTY_RACE } from '@/lib/scores/race';
+
+/** The stored input of a form submitted with the optional numbers left blank. */
+const input: StoredSymptomValues = {
+  ...symptomSchema.parse({
+    onsetUnknown: true,
+    armWeakness: 'None',
+    race: EMPTY_RACE,
+    levelOfConsciousness: 'Conscious',
+    diastolicBloodPressure: '80',
+    systolicBloodPressure: '',
+    plateletCount: '',
+    bloodGlucose: '',
+    inr: '',
+  }),
+  lastKnownWell: undefined,
+};
+
+const rowValue = (values: StoredSymptomValues, label: string) =>
+  referralInputSections(values)
+    .flatMap((section) => section.rows)
+    .find((row) => row.label === label)?.value;
+
+describe('referralInputSections', () => {
+  it('shows blank labs and systolic pressure as not done rather than 0', () => {
+    expect(rowValue(input, 'Platelets')).toBe('Not done');
+    expect(rowValue(input, 'Glucose')).toBe('Not done');
+    expect(rowValue(input, 'INR')).toBe('Not done');
+    expect(rowValue(input, 'Blood pressure')).toBe('Diastolic 80 mmHg (systolic not recorded)');
+  });
+
+  it('shows recorded values with their units', () => {
+    const recorded = { ...input, systolicBloodPressure: 150, plateletCount: 220, inr: 1.1 };
+
+    expect(rowValue(recorded, 'Platelets')).toBe('220 ×10³/µL');
+    expect(rowValue(recorded, 'INR')).toBe('1.1');
+    expect(rowValue(recorded, 'Blood pressure')).toBe('150/80 mmHg');
+  });
+});
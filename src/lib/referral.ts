@@ -0,0 +1,115 @@
+import type { StoredSymptomValues } from '@/types';
+import { NIHSS_STEPS } from '@/lib/scores/nihss';
+import { RACE_ITEMS } from '@/lib/scores/race';
+
+/** Who the letter is about, who is sending it and where to. Entered when the referral is written. */
+export type ReferralDetails = {
+  patientName: string;
+  /** Hospital or medical record number. */
+  patientId: string;
+  dateOfBirth?: string;
+  clinicianName: string;
+  referringHospital?: string;
+  receivingCentre?: string;
+  notes?: string;
+};
+
+export const EMPTY_REFERRAL_DETAILS: ReferralDetails = { patientName: '', patientId: '', clinicianName: '' };
+
+/** The problems that stop a letter being printed: it must name the clinician and identify the patient. */
+export function referralDetailsProblems({ patientName, patientId, clinicianName }: ReferralDetails): string[] {
+  const problems: string[] = [];
+  if (!patientName.trim() && !patientId.trim()) {
+    problems.push('Enter the patient\'s name or record number.');
+  }
+  if (!clinicianName.trim()) {
+    problems.push('Enter the name of the referring clinician.');
+  }
+  return problems;
+}
+
+export type ReferralRow = { label: string; value: string };
+export type ReferralSection = { title: string; rows: ReferralRow[] };
+
+const yesNo = (value: boolean) => (value ? 'Yes' : 'No');
+const orNotDone = (value: number | '' | undefined, unit = '') =>
+  value === '' || value === undefined ? 'Not done' : `${value}${unit}`;
+
+/** Every form input of the assessment, grouped as on the form, with the labels the form uses. */
+export function referralInputSections(input: StoredSymptomValues): ReferralSection[] {
+  const sections: ReferralSection[] = [
+    {
+      title: 'Presentation',
+      rows: [
+        {
+          label: 'Last known well',
+          value: input.lastKnownWell
+            ? new Date(input.lastKnownWell).toLocaleString()
+            : input.onsetUnknown
+            ? 'Unknown (wake-up stroke or unwitnessed onset)'
+            : 'Not recorded',
+        },
+        {
+          label: 'Blood pressure',
+          value:
+            input.systolicBloodPressure === '' || input.systolicBloodPressure === undefined
+              ? `Diastolic ${input.diastolicBloodPressure} mmHg (systolic not recorded)`
+              : `${input.systolicBloodPressure}/${input.diastolicBloodPressure} mmHg`,
+        },
+        { label: 'Arm weakness', value: input.armWeakness },
+        { label: 'Face droop', value: yesNo(input.faceDroop) },
+        { label: 'Slurred speech', value: yesNo(input.speechSlurred) },
+        { label: 'Level of consciousness', value: input.levelOfConsciousness },
+        { label: 'Loss of consciousness at onset', value: yesNo(input.lossOfConsciousnessAtOnset) },
+        { label: 'Vomiting', value: yesNo(input.vomiting) },
+        { label: 'Headache', value: yesNo(input.headache) },
+        { label: 'Neck stiffness', value: yesNo(input.neckStiffness) },
+        { label: 'Both plantars extensor', value: yesNo(input.bilateralExtensorPlantars) },
+      ],
+    },
+    {
+      title: 'History',
+      rows: [
+        { label: 'Hypertension', value: yesNo(input.historyHypertension) },
+        { label: 'Diabetes', value: yesNo(input.historyDiabetes) },
+        { label: 'Smoking', value: yesNo(input.historySmoking) },
+        { label: 'Angina or claudication', value: yesNo(input.historyAnginaOrClaudication) },
+        { label: 'Previous stroke or TIA', value: yesNo(input.previousStrokeOrTia) },
+        { label: 'Heart disease', value: yesNo(input.heartDisease) },
+      ],
+    },
+    {
+      title: 'Thrombolysis Contraindications',
+      rows: [
+        { label: 'Current anticoagulant use', value: yesNo(input.anticoagulantUse) },
+        { label: 'Major surgery (last 14 days)', value: yesNo(input.recentSurgery) },
+        { label: 'Prior intracranial hemorrhage', value: yesNo(input.priorIntracranialHemorrhage) },
+        { label: 'Stroke or head trauma (last 3 months)', value: yesNo(input.recentStrokeOrHeadTrauma) },
+      ],
+    },
+    {
+      title: 'Laboratory',
+      rows: [
+        { label: 'Platelets', value: orNotDone(input.plateletCount, ' ×10³/µL') },
+        { label: 'Glucose', value: orNotDone(input.bloodGlucose, ' mg/dL') },
+        { label: 'INR', value: orNotDone(input.inr) },
+      ],
+    },
+    {
+      title: 'RACE Scale',
+      rows: RACE_ITEMS.map((item) => ({ label: item.label, value: String(input.race[item.id]) })),
+    },
+  ];
+
+  const { nihss } = input;
+  if (nihss) {
+    sections.push({
+      title: 'NIH Stroke Scale',
+      rows: NIHSS_STEPS.flatMap((step) =>
+        step.items.map((item) => ({ label: `${item.code} ${item.label}`, value: String(nihss[item.id]) }))
+      ),
+    });
+  }
+
+  return sections;
+}
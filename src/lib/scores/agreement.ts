@@ -0,0 +1,24 @@
+import type { StrokeType } from '@/lib/eligibility';
+
+/** Upper bound of the "low" confidence band, applied when the clinical scores disagree. */
+export const DISAGREEMENT_MAX_CONFIDENCE = 0.59;
+
+export type ClinicalScoreAgreement = {
+  agree: boolean;
+  interpretation: StrokeType;
+};
+
+/**
+ * Combines the Siriraj and Guy's Hospital interpretations.
+ * Any disagreement between the two scores is treated as clinical ambiguity and downgraded to 'Uncertain'.
+ */
+export function reconcileClinicalScores(
+  sirirajInterpretation: StrokeType,
+  guysHospitalInterpretation: StrokeType
+): ClinicalScoreAgreement {
+  const agree = sirirajInterpretation === guysHospitalInterpretation;
+  return {
+    agree,
+    interpretation: agree ? sirirajInterpretation : 'Uncertain',
+  };
+}
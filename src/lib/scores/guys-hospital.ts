@@ -0,0 +1,141 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { StrokeType } from '@/lib/eligibility';
+
+/**
+ * Guy's Hospital (Allen) Stroke Score (Allen, Q J Med 1983).
+ * Each weight is added when its finding is present; diastolic BP is multiplied by its weight.
+ */
+export const GUYS_HOSPITAL_WEIGHTS = {
+  apoplecticOnset: 21.9,
+  drowsy: 7.3,
+  comatose: 14.6,
+  bilateralExtensorPlantars: 7.1,
+  diastolicBloodPressure: 0.17,
+  atheroma: -3.7,
+  hypertension: -4.1,
+  previousStrokeOrTia: -6.7,
+  heartDisease: -4.3,
+  constant: -12.6,
+} as const;
+
+/** Scores above this favour hemorrhage. */
+export const GUYS_HOSPITAL_HEMORRHAGE_THRESHOLD = 24;
+/** Scores below this favour infarction. */
+export const GUYS_HOSPITAL_INFARCTION_THRESHOLD = 4;
+
+export type GuysHospitalInput = Pick<
+  PredictStrokeTypeInput,
+  | 'levelOfConsciousness'
+  | 'vomiting'
+  | 'headache'
+  | 'diastolicBloodPressure'
+  | 'historyHypertension'
+  | 'historyDiabetes'
+  | 'lossOfConsciousnessAtOnset'
+  | 'neckStiffness'
+  | 'bilateralExtensorPlantars'
+  | 'historyAnginaOrClaudication'
+  | 'previousStrokeOrTia'
+  | 'heartDisease'
+>;
+
+export type GuysHospitalComponent = {
+  id:
+    | 'apoplecticOnset'
+    | 'consciousness'
+    | 'plantars'
+    | 'diastolicBloodPressure'
+    | 'atheroma'
+    | 'hypertension'
+    | 'previousStrokeOrTia'
+    | 'heartDisease'
+    | 'constant';
+  label: string;
+  contribution: number;
+};
+
+export type GuysHospitalResult = {
+  score: number;
+  interpretation: StrokeType;
+  components: GuysHospitalComponent[];
+};
+
+export function interpretGuysHospitalScore(score: number): StrokeType {
+  if (score > GUYS_HOSPITAL_HEMORRHAGE_THRESHOLD) {
+    return 'Hemorrhagic';
+  }
+  if (score < GUYS_HOSPITAL_INFARCTION_THRESHOLD) {
+    return 'Ischemic';
+  }
+  return 'Uncertain';
+}
+
+export function computeGuysHospital(input: GuysHospitalInput): GuysHospitalResult {
+  // Apoplectic onset: two or more of loss of consciousness, headache within 2 hours, vomiting, neck stiffness.
+  const apoplecticSigns = [input.lossOfConsciousnessAtOnset, input.headache, input.vomiting, input.neckStiffness];
+  const hasApoplecticOnset = apoplecticSigns.filter(Boolean).length >= 2;
+  const hasAtheroma = input.historyDiabetes || input.historyAnginaOrClaudication;
+
+  const consciousnessContribution =
+    input.levelOfConsciousness === 'Comatose'
+      ? GUYS_HOSPITAL_WEIGHTS.comatose
+      : input.levelOfConsciousness === 'Drowsy'
+      ? GUYS_HOSPITAL_WEIGHTS.drowsy
+      : 0;
+
+  const components: GuysHospitalComponent[] = [
+    {
+      id: 'apoplecticOnset',
+      label: 'Apoplectic onset',
+      contribution: hasApoplecticOnset ? GUYS_HOSPITAL_WEIGHTS.apoplecticOnset : 0,
+    },
+    {
+      id: 'consciousness',
+      label: 'Consciousness',
+      contribution: consciousnessContribution,
+    },
+    {
+      id: 'plantars',
+      label: 'Extensor plantars',
+      contribution: input.bilateralExtensorPlantars ? GUYS_HOSPITAL_WEIGHTS.bilateralExtensorPlantars : 0,
+    },
+    {
+      id: 'diastolicBloodPressure',
+      label: 'Diastolic BP',
+      contribution: GUYS_HOSPITAL_WEIGHTS.diastolicBloodPressure * input.diastolicBloodPressure,
+    },
+    {
+      id: 'atheroma',
+      label: 'Atheroma markers',
+      contribution: hasAtheroma ? GUYS_HOSPITAL_WEIGHTS.atheroma : 0,
+    },
+    {
+      id: 'hypertension',
+      label: 'Hypertension',
+      contribution: input.historyHypertension ? GUYS_HOSPITAL_WEIGHTS.hypertension : 0,
+    },
+    {
+      id: 'previousStrokeOrTia',
+      label: 'Previous stroke/TIA',
+      contribution: input.previousStrokeOrTia ? GUYS_HOSPITAL_WEIGHTS.previousStrokeOrTia : 0,
+    },
+    {
+      id: 'heartDisease',
+      label: 'Heart disease',
+      contribution: input.heartDisease ? GUYS_HOSPITAL_WEIGHTS.heartDisease : 0,
+    },
+    {
+      id: 'constant',
+      label: 'Constant',
+      contribution: GUYS_HOSPITAL_WEIGHTS.constant,
+    },
+  ];
+
+  const score = Math.round(components.reduce((sum, component) => sum + component.contribution, 0) * 100) / 100;
+
+  return {
+    score,
+    interpretation: interpretGuysHospitalScore(score),
+    components,
+  };
+}
@@ -0,0 +1,288 @@
+import { z } from 'zod';
+
+/** Items stay unset until they are scored, so a partly completed NIHSS cannot be submitted. */
+const itemScore = (max: number) => z.number({ required_error: 'Not scored.' }).int().min(0).max(max);
+
+export const nihssSchema = z.object({
+  loc: itemScore(3),
+  locQuestions: itemScore(2),
+  locCommands: itemScore(2),
+  bestGaze: itemScore(2),
+  visual: itemScore(3),
+  facialPalsy: itemScore(3),
+  motorArmLeft: itemScore(4),
+  motorArmRight: itemScore(4),
+  motorLegLeft: itemScore(4),
+  motorLegRight: itemScore(4),
+  limbAtaxia: itemScore(2),
+  sensory: itemScore(2),
+  bestLanguage: itemScore(3),
+  dysarthria: itemScore(2),
+  extinction: itemScore(2),
+});
+
+export type NihssScores = z.infer<typeof nihssSchema>;
+export type NihssItemId = keyof NihssScores;
+
+export type NihssItem = {
+  id: NihssItemId;
+  code: string;
+  label: string;
+  help: string;
+  options: { score: number; description: string }[];
+};
+
+export type NihssStep = {
+  title: string;
+  items: NihssItem[];
+};
+
+const MOTOR_OPTIONS = [
+  { score: 0, description: 'No drift for the full count' },
+  { score: 1, description: 'Drift before the full count, does not hit the bed' },
+  { score: 2, description: 'Some effort against gravity' },
+  { score: 3, description: 'No effort against gravity, limb falls' },
+  { score: 4, description: 'No movement' },
+];
+
+/** The 11 NIH Stroke Scale items, with sub-items grouped under the item they belong to. */
+export const NIHSS_STEPS: NihssStep[] = [
+  {
+    title: 'Level of Consciousness',
+    items: [
+      {
+        id: 'loc',
+        code: '1a',
+        label: 'Level of consciousness',
+        help: 'Choose a response even if full evaluation is prevented by an endotracheal tube, language barrier or trauma.',
+        options: [
+          { score: 0, description: 'Alert, keenly responsive' },
+          { score: 1, description: 'Not alert, but arousable by minor stimulation' },
+          { score: 2, description: 'Not alert, requires repeated or painful stimulation' },
+          { score: 3, description: 'Responds only with reflexes or is totally unresponsive' },
+        ],
+      },
+      {
+        id: 'locQuestions',
+        code: '1b',
+        label: 'LOC questions',
+        help: 'Ask the month and the patient\'s age. Only the initial answer is graded; no partial credit for being close.',
+        options: [
+          { score: 0, description: 'Answers both questions correctly' },
+          { score: 1, description: 'Answers one question correctly' },
+          { score: 2, description: 'Answers neither question correctly' },
+        ],
+      },
+      {
+        id: 'locCommands',
+        code: '1c',
+        label: 'LOC commands',
+        help: 'Ask the patient to open and close the eyes, then grip and release the non-paretic hand.',
+        options: [
+          { score: 0, description: 'Performs both tasks correctly' },
+          { score: 1, description: 'Performs one task correctly' },
+          { score: 2, description: 'Performs neither task correctly' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Best Gaze',
+    items: [
+      {
+        id: 'bestGaze',
+        code: '2',
+        label: 'Best gaze',
+        help: 'Test horizontal eye movements only. Oculocephalic testing may be used in aphasic or unresponsive patients.',
+        options: [
+          { score: 0, description: 'Normal' },
+          { score: 1, description: 'Partial gaze palsy' },
+          { score: 2, description: 'Forced deviation or total gaze paresis' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Visual Fields',
+    items: [
+      {
+        id: 'visual',
+        code: '3',
+        label: 'Visual fields',
+        help: 'Test upper and lower quadrants by confrontation, using finger counting or visual threat.',
+        options: [
+          { score: 0, description: 'No visual loss' },
+          { score: 1, description: 'Partial hemianopia' },
+          { score: 2, description: 'Complete hemianopia' },
+          { score: 3, description: 'Bilateral hemianopia, including cortical blindness' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Facial Palsy',
+    items: [
+      {
+        id: 'facialPalsy',
+        code: '4',
+        label: 'Facial palsy',
+        help: 'Ask or pantomime the patient to show teeth, raise eyebrows and close eyes.',
+        options: [
+          { score: 0, description: 'Normal symmetrical movement' },
+          { score: 1, description: 'Minor paralysis (flattened nasolabial fold, asymmetric smile)' },
+          { score: 2, description: 'Partial paralysis of the lower face' },
+          { score: 3, description: 'Complete paralysis of upper and lower face' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Motor Arm',
+    items: [
+      {
+        id: 'motorArmLeft',
+        code: '5a',
+        label: 'Left arm',
+        help: 'Arm extended at 90° (sitting) or 45° (supine), palms down, for 10 seconds.',
+        options: MOTOR_OPTIONS,
+      },
+      {
+        id: 'motorArmRight',
+        code: '5b',
+        label: 'Right arm',
+        help: 'Arm extended at 90° (sitting) or 45° (supine), palms down, for 10 seconds.',
+        options: MOTOR_OPTIONS,
+      },
+    ],
+  },
+  {
+    title: 'Motor Leg',
+    items: [
+      {
+        id: 'motorLegLeft',
+        code: '6a',
+        label: 'Left leg',
+        help: 'Leg held at 30° while supine for 5 seconds.',
+        options: MOTOR_OPTIONS,
+      },
+      {
+        id: 'motorLegRight',
+        code: '6b',
+        label: 'Right leg',
+        help: 'Leg held at 30° while supine for 5 seconds.',
+        options: MOTOR_OPTIONS,
+      },
+    ],
+  },
+  {
+    title: 'Limb Ataxia',
+    items: [
+      {
+        id: 'limbAtaxia',
+        code: '7',
+        label: 'Limb ataxia',
+        help: 'Finger-nose-finger and heel-shin tests on both sides. Score only if ataxia is out of proportion to weakness.',
+        options: [
+          { score: 0, description: 'Absent' },
+          { score: 1, description: 'Present in one limb' },
+          { score: 2, description: 'Present in two limbs' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Sensory',
+    items: [
+      {
+        id: 'sensory',
+        code: '8',
+        label: 'Sensory',
+        help: 'Test sensation to pinprick, or withdrawal from noxious stimulus in obtunded or aphasic patients.',
+        options: [
+          { score: 0, description: 'Normal, no sensory loss' },
+          { score: 1, description: 'Mild-to-moderate sensory loss' },
+          { score: 2, description: 'Severe to total sensory loss' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Best Language',
+    items: [
+      {
+        id: 'bestLanguage',
+        code: '9',
+        label: 'Best language',
+        help: 'Ask the patient to describe a picture, name items and read sentences.',
+        options: [
+          { score: 0, description: 'No aphasia, normal' },
+          { score: 1, description: 'Mild-to-moderate aphasia' },
+          { score: 2, description: 'Severe aphasia' },
+          { score: 3, description: 'Mute, global aphasia' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Dysarthria',
+    items: [
+      {
+        id: 'dysarthria',
+        code: '10',
+        label: 'Dysarthria',
+        help: 'Ask the patient to read or repeat words from a list.',
+        options: [
+          { score: 0, description: 'Normal' },
+          { score: 1, description: 'Mild-to-moderate, can be understood with some difficulty' },
+          { score: 2, description: 'Severe, unintelligible or mute' },
+        ],
+      },
+    ],
+  },
+  {
+    title: 'Extinction and Inattention',
+    items: [
+      {
+        id: 'extinction',
+        code: '11',
+        label: 'Extinction and inattention',
+        help: 'Use information from the prior testing, plus double simultaneous stimulation if needed.',
+        options: [
+          { score: 0, description: 'No abnormality' },
+          { score: 1, description: 'Inattention or extinction in one sensory modality' },
+          { score: 2, description: 'Profound hemi-inattention or extinction to more than one modality' },
+        ],
+      },
+    ],
+  },
+];
+
+export const NIHSS_MAX_SCORE = 42;
+
+/** The items of a NIHSS in progress that have not been scored yet, in the order they are assessed. */
+export function unscoredNihssItems(scores: Partial<NihssScores>): NihssItem[] {
+  return NIHSS_STEPS.flatMap((step) => step.items).filter((item) => scores[item.id] === undefined);
+}
+
+export type NihssSeverity = 'No stroke symptoms' | 'Minor' | 'Moderate' | 'Moderate to severe' | 'Severe';
+
+/** Sums the scored items; on a NIHSS in progress this is the running total so far. */
+export function computeNihssTotal(scores: Partial<NihssScores>): number {
+  return Object.values(scores).reduce((sum, score) => sum + (score ?? 0), 0);
+}
+
+export function nihssSeverity(total: number): NihssSeverity {
+  if (total === 0) {
+    return 'No stroke symptoms';
+  }
+  if (total <= 4) {
+    return 'Minor';
+  }
+  if (total <= 15) {
+    return 'Moderate';
+  }
+  if (total <= 20) {
+    return 'Moderate to severe';
+  }
+  return 'Severe';
+}
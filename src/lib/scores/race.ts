@@ -0,0 +1,125 @@
+import { z } from 'zod';
+
+/**
+ * Rapid Arterial oCclusion Evaluation (RACE) scale (Pérez de la Ossa et al., Stroke 2014).
+ * A pre-hospital screen for large vessel occlusion; a total of 5 or more suggests LVO.
+ */
+export const raceSchema = z.object({
+  facialPalsy: z.number().int().min(0).max(2),
+  armMotor: z.number().int().min(0).max(2),
+  legMotor: z.number().int().min(0).max(2),
+  gazeDeviation: z.number().int().min(0).max(1),
+  aphasia: z.number().int().min(0).max(2),
+  agnosia: z.number().int().min(0).max(2),
+});
+
+export type RaceScores = z.infer<typeof raceSchema>;
+export type RaceItemId = keyof RaceScores;
+
+export const RACE_LVO_THRESHOLD = 5;
+
+export const EMPTY_RACE: RaceScores = {
+  facialPalsy: 0,
+  armMotor: 0,
+  legMotor: 0,
+  gazeDeviation: 0,
+  aphasia: 0,
+  agnosia: 0,
+};
+
+export type RaceItem = {
+  id: RaceItemId;
+  label: string;
+  help: string;
+  options: { score: number; description: string }[];
+};
+
+export const RACE_ITEMS: RaceItem[] = [
+  {
+    id: 'facialPalsy',
+    label: 'Facial Palsy',
+    help: 'Ask the patient to show their teeth.',
+    options: [
+      { score: 0, description: 'Absent' },
+      { score: 1, description: 'Mild' },
+      { score: 2, description: 'Moderate to severe' },
+    ],
+  },
+  {
+    id: 'armMotor',
+    label: 'Arm Motor Function',
+    help: 'Arm extended at 90° (sitting) or 45° (supine).',
+    options: [
+      { score: 0, description: 'Normal to mild (holds > 10 s)' },
+      { score: 1, description: 'Moderate (holds < 10 s)' },
+      { score: 2, description: 'Severe (cannot resist gravity)' },
+    ],
+  },
+  {
+    id: 'legMotor',
+    label: 'Leg Motor Function',
+    help: 'Leg held at 30° while supine.',
+    options: [
+      { score: 0, description: 'Normal to mild (holds > 5 s)' },
+      { score: 1, description: 'Moderate (holds < 5 s)' },
+      { score: 2, description: 'Severe (cannot resist gravity)' },
+    ],
+  },
+  {
+    id: 'gazeDeviation',
+    label: 'Head and Gaze Deviation',
+    help: 'Observe for deviation of the head and eyes to one side.',
+    options: [
+      { score: 0, description: 'Absent' },
+      { score: 1, description: 'Present' },
+    ],
+  },
+  {
+    id: 'aphasia',
+    label: 'Aphasia (right-sided weakness)',
+    help: 'Ask the patient to close their eyes and make a fist.',
+    options: [
+      { score: 0, description: 'Performs both tasks' },
+      { score: 1, description: 'Performs one task' },
+      { score: 2, description: 'Performs neither task' },
+    ],
+  },
+  {
+    id: 'agnosia',
+    label: 'Agnosia (left-sided weakness)',
+    help: 'Ask "whose arm is this?" and "can you move it?".',
+    options: [
+      { score: 0, description: 'Recognizes arm and impairment' },
+      { score: 1, description: 'Does not recognize one of them' },
+      { score: 2, description: 'Recognizes neither' },
+    ],
+  },
+];
+
+export type RaceResult = {
+  score: number;
+  lvoSuspected: boolean;
+};
+
+/**
+ * Aphasia is scored for right hemiparesis and agnosia for left hemiparesis. When the side is
+ * unclear (no weakness or both sides) the higher of the two is used so the screen errs toward referral.
+ */
+export function computeRace(
+  scores: RaceScores,
+  armWeakness: 'Left' | 'Right' | 'Both' | 'None'
+): RaceResult {
+  const cortical =
+    armWeakness === 'Right'
+      ? scores.aphasia
+      : armWeakness === 'Left'
+      ? scores.agnosia
+      : Math.max(scores.aphasia, scores.agnosia);
+
+  const score = scores.facialPalsy + scores.armMotor + scores.legMotor + scores.gazeDeviation + cortical;
+
+  return {
+    score,
+    lvoSuspected: score >= RACE_LVO_THRESHOLD,
+  };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { SIRIRAJ_WEIGHTS, computeSiriraj, interpretSirirajScore, type SirirajInput } from '@/lib/scores/siriraj';
+
+const baseInput: SirirajInput = {
+  levelOfConsciousness: 'Conscious',
+  vomiting: false,
+  headache: false,
+  diastolicBloodPressure: 90,
+  historyDiabetes: false,
+  historyAnginaOrClaudication: false,
+};
+
+describe('computeSiriraj', () => {
+  it('scores an alert patient with no other findings from the diastolic BP and the constant', () => {
+    // 0.1 x 90 - 12
+    expect(computeSiriraj(baseInput).score).toBe(-3);
+  });
+
+  it('weights consciousness as 0, 1 or 2 points', () => {
+    expect(computeSiriraj({ ...baseInput, levelOfConsciousness: 'Drowsy' }).score).toBe(-0.5);
+    expect(computeSiriraj({ ...baseInput, levelOfConsciousness: 'Comatose' }).score).toBe(2);
+  });
+
+  it('adds 2 each for vomiting and headache', () => {
+    expect(computeSiriraj({ ...baseInput, vomiting: true }).score).toBe(-1);
+    expect(computeSiriraj({ ...baseInput, vomiting: true, headache: true }).score).toBe(1);
+  });
+
+  it('subtracts 3 for atheroma markers, once however many are present', () => {
+    expect(computeSiriraj({ ...baseInput, historyDiabetes: true }).score).toBe(-6);
+    expect(computeSiriraj({ ...baseInput, historyAnginaOrClaudication: true }).score).toBe(-6);
+    expect(computeSiriraj({ ...baseInput, historyDiabetes: true, historyAnginaOrClaudication: true }).score).toBe(-6);
+  });
+
+  it('does not count hypertension or smoking as atheroma markers', () => {
+    const input = { ...baseInput, historyHypertension: true, historySmoking: true };
+
+    expect(computeSiriraj(input).score).toBe(-3);
+  });
+
+  it('rounds away floating point noise from the 0.1 x diastolic BP term', () => {
+    // 0.1 * 93 - 12 is -2.6999999999999993 in floating point.
+    expect(computeSiriraj({ ...baseInput, diastolicBloodPressure: 93 }).score).toBe(-2.7);
+    expect(computeSiriraj({ ...baseInput, diastolicBloodPressure: 87.5 }).score).toBe(-3.25);
+    expect(computeSiriraj({ ...baseInput, vomiting: true, headache: true, diastolicBloodPressure: 91 }).score).toBe(1.1);
+  });
+
+  it('reports each component, summing to the score', () => {
+    const result = computeSiriraj({ ...baseInput, levelOfConsciousness: 'Drowsy', vomiting: true, diastolicBloodPressure: 110 });
+    const contributions = Object.fromEntries(result.components.map((component) => [component.id, component.contribution]));
+
+    expect(contributions).toEqual({
+      consciousness: SIRIRAJ_WEIGHTS.consciousness,
+      vomiting: SIRIRAJ_WEIGHTS.vomiting,
+      headache: 0,
+      diastolicBloodPressure: 11,
+      atheroma: 0,
+      constant: SIRIRAJ_WEIGHTS.constant,
+    });
+    expect(result.score).toBeCloseTo(result.components.reduce((sum, component) => sum + component.contribution, 0));
+  });
+});
+
+describe('worked examples', () => {
+  it.each<{ description: string; changes: Partial<SirirajInput>; score: number; interpretation: string }>([
+    {
+      description: 'a comatose patient with vomiting, headache and a DBP of 120',
+      changes: { levelOfConsciousness: 'Comatose', vomiting: true, headache: true, diastolicBloodPressure: 120 },
+      score: 9,
+      interpretation: 'Hemorrhagic',
+    },
+    {
+      description: 'a drowsy patient with headache and a DBP of 110',
+      changes: { levelOfConsciousness: 'Drowsy', headache: true, diastolicBloodPressure: 110 },
+      score: 3.5,
+      interpretation: 'Hemorrhagic',
+    },
+    {
+      description: 'an alert diabetic with a DBP of 80',
+      changes: { historyDiabetes: true, diastolicBloodPressure: 80 },
+      score: -7,
+      interpretation: 'Ischemic',
+    },
+    {
+      description: 'an alert patient with claudication, vomiting and a DBP of 100',
+      changes: { historyAnginaOrClaudication: true, vomiting: true, diastolicBloodPressure: 100 },
+      score: -3,
+      interpretation: 'Ischemic',
+    },
+  ])('scores $description', ({ changes, score, interpretation }) => {
+    expect(computeSiriraj({ ...baseInput, ...changes })).toMatchObject({ score, interpretation });
+  });
+});
+
+describe('boundaries', () => {
+  it('is indeterminate at exactly +1 and exactly -1', () => {
+    // 2 + 2 + 9 - 12 and 2 + 9 - 12
+    expect(computeSiriraj({ ...baseInput, vomiting: true, headache: true })).toMatchObject({
+      score: 1,
+      interpretation: 'Uncertain',
+    });
+    expect(computeSiriraj({ ...baseInput, vomiting: true })).toMatchObject({ score: -1, interpretation: 'Uncertain' });
+  });
+
+  it('leaves the indeterminate band one diastolic mmHg either side', () => {
+    expect(computeSiriraj({ ...baseInput, vomiting: true, headache: true, diastolicBloodPressure: 91 })).toMatchObject({
+      score: 1.1,
+      interpretation: 'Hemorrhagic',
+    });
+    expect(computeSiriraj({ ...baseInput, vomiting: true, diastolicBloodPressure: 89 })).toMatchObject({
+      score: -1.1,
+      interpretation: 'Ischemic',
+    });
+  });
+});
+
+describe('interpretSirirajScore', () => {
+  it('favours hemorrhage above +1, infarction below -1 and is indeterminate in between', () => {
+    expect(interpretSirirajScore(4.5)).toBe('Hemorrhagic');
+    expect(interpretSirirajScore(-3)).toBe('Ischemic');
+    expect(interpretSirirajScore(0)).toBe('Uncertain');
+    expect(interpretSirirajScore(1)).toBe('Uncertain');
+    expect(interpretSirirajScore(-1)).toBe('Uncertain');
+  });
+});
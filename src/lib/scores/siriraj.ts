@@ -0,0 +1,109 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import type { StrokeType } from '@/lib/eligibility';
+
+/**
+ * Siriraj Stroke Score (Poungvarin et al., BMJ 1991):
+ * (2.5 x consciousness) + (2 x vomiting) + (2 x headache) + (0.1 x diastolic BP) - (3 x atheroma) - 12
+ *
+ * The atheroma markers are those the paper defines: diabetes, angina or intermittent claudication.
+ * Hypertension and smoking are not among them.
+ */
+export const SIRIRAJ_WEIGHTS = {
+  consciousness: 2.5,
+  vomiting: 2,
+  headache: 2,
+  diastolicBloodPressure: 0.1,
+  atheroma: -3,
+  constant: -12,
+} as const;
+
+/** Scores above this favour hemorrhage; scores below the negative favour infarction. */
+export const SIRIRAJ_THRESHOLD = 1;
+
+export type SirirajInput = Pick<
+  PredictStrokeTypeInput,
+  | 'levelOfConsciousness'
+  | 'vomiting'
+  | 'headache'
+  | 'diastolicBloodPressure'
+  | 'historyDiabetes'
+  | 'historyAnginaOrClaudication'
+>;
+
+export type SirirajComponent = {
+  id: keyof typeof SIRIRAJ_WEIGHTS;
+  label: string;
+  contribution: number;
+};
+
+export type SirirajResult = {
+  score: number;
+  interpretation: StrokeType;
+  components: SirirajComponent[];
+};
+
+/** The consciousness points the score multiplies by its consciousness weight. */
+export const CONSCIOUSNESS_POINTS: Record<SirirajInput['levelOfConsciousness'], number> = {
+  Conscious: 0,
+  Drowsy: 1,
+  Comatose: 2,
+};
+
+export function interpretSirirajScore(score: number): StrokeType {
+  if (score > SIRIRAJ_THRESHOLD) {
+    return 'Hemorrhagic';
+  }
+  if (score < -SIRIRAJ_THRESHOLD) {
+    return 'Ischemic';
+  }
+  return 'Uncertain';
+}
+
+export function hasAtheroma(input: Pick<SirirajInput, 'historyDiabetes' | 'historyAnginaOrClaudication'>): boolean {
+  return input.historyDiabetes || input.historyAnginaOrClaudication;
+}
+
+export function computeSiriraj(input: SirirajInput): SirirajResult {
+
+  const components: SirirajComponent[] = [
+    {
+      id: 'consciousness',
+      label: 'Consciousness',
+      contribution: SIRIRAJ_WEIGHTS.consciousness * CONSCIOUSNESS_POINTS[input.levelOfConsciousness],
+    },
+    {
+      id: 'vomiting',
+      label: 'Vomiting',
+      contribution: input.vomiting ? SIRIRAJ_WEIGHTS.vomiting : 0,
+    },
+    {
+      id: 'headache',
+      label: 'Headache',
+      contribution: input.headache ? SIRIRAJ_WEIGHTS.headache : 0,
+    },
+    {
+      id: 'diastolicBloodPressure',
+      label: 'Diastolic BP',
+      contribution: SIRIRAJ_WEIGHTS.diastolicBloodPressure * input.diastolicBloodPressure,
+    },
+    {
+      id: 'atheroma',
+      label: 'Atheroma markers',
+      contribution: hasAtheroma(input) ? SIRIRAJ_WEIGHTS.atheroma : 0,
+    },
+    {
+      id: 'constant',
+      label: 'Constant',
+      contribution: SIRIRAJ_WEIGHTS.constant,
+    },
+  ];
+
+  // Round away floating point noise from the 0.1 weight so boundaries behave predictably.
+  const score = Math.round(components.reduce((sum, component) => sum + component.contribution, 0) * 100) / 100;
+
+  return {
+    score,
+    interpretation: interpretSirirajScore(score),
+    components,
+  };
+}
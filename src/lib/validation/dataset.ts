@@ -0,0 +1,141 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+
+/** The ground truth a case can be labelled with. Uncertain is a prediction, never a diagnosis. */
+export type GroundTruthStrokeType = 'Ischemic' | 'Hemorrhagic';
+
+export type LabelledCase = {
+  id: string;
+  input: PredictStrokeTypeInput;
+  label: GroundTruthStrokeType;
+  /** Whether the patient should have been offered thrombolysis, when known. */
+  eligible?: boolean;
+};
+
+export type DatasetFormat = 'csv' | 'jsonl';
+
+/**
+ * A dataset row: the `PredictStrokeTypeInput` fields plus `label`, and optionally `id` and `eligible`.
+ * In CSV, nested NIHSS and RACE items use dotted headers such as `race.facialPalsy`.
+ */
+type DatasetRow = Record<string, unknown> & { id?: unknown; label?: unknown; eligible?: unknown };
+
+/** Splits CSV text into rows of fields, honouring quoted fields with embedded commas, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+/** CSV cells are untyped: empty cells are absent, and booleans and numbers are recognised. */
+const parseCell = (cell: string): unknown => {
+  const value = cell.trim();
+  if (value === '') {
+    return undefined;
+  }
+  if (/^(true|yes)$/i.test(value)) {
+    return true;
+  }
+  if (/^(false|no)$/i.test(value)) {
+    return false;
+  }
+  if (!Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+};
+
+const setPath = (target: Record<string, unknown>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    node = (node[key] ??= {}) as Record<string, unknown>;
+  }
+  node[last] = value;
+};
+
+const csvRows = (text: string): DatasetRow[] => {
+  const [header, ...rows] = parseCsv(text);
+  return rows.map((cells) => {
+    const row: DatasetRow = {};
+    header.forEach((column, index) => {
+      const value = parseCell(cells[index] ?? '');
+      if (value !== undefined) {
+        setPath(row, column.trim(), value);
+      }
+    });
+    return row;
+  });
+};
+
+const jsonlRows = (text: string): DatasetRow[] =>
+  text
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line));
+
+const toLabelledCase = ({ id, label, eligible, ...input }: DatasetRow, index: number): LabelledCase => {
+  if (label !== 'Ischemic' && label !== 'Hemorrhagic') {
+    throw new Error(`Case ${id ?? index + 1}: label must be Ischemic or Hemorrhagic, got ${JSON.stringify(label)}.`);
+  }
+  if (eligible !== undefined && typeof eligible !== 'boolean') {
+    throw new Error(`Case ${id ?? index + 1}: eligible must be true or false, got ${JSON.stringify(eligible)}.`);
+  }
+  return {
+    id: id === undefined ? String(index + 1) : String(id),
+    // The flow validates the input itself; the Siriraj-only path reads only the fields it needs.
+    input: input as PredictStrokeTypeInput,
+    label,
+    eligible,
+  };
+};
+
+export function parseDataset(text: string, format: DatasetFormat): LabelledCase[] {
+  const rows = format === 'csv' ? csvRows(text) : jsonlRows(text);
+  return rows.map(toLabelledCase);
+}
+
+export function datasetFormatFromPath(path: string): DatasetFormat {
+  if (path.endsWith('.csv')) {
+    return 'csv';
+  }
+  if (path.endsWith('.jsonl') || path.endsWith('.ndjson')) {
+    return 'jsonl';
+  }
+  throw new Error(`Cannot tell the dataset format of ${path}; use a .csv or .jsonl file.`);
+}
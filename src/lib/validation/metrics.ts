@@ -0,0 +1,172 @@
+import type { StrokeType } from '@/lib/eligibility';
+import type { GroundTruthStrokeType } from '@/lib/validation/dataset';
+
+/** What a model predicted for one labelled case. */
+export type CaseOutcome = {
+  id: string;
+  label: GroundTruthStrokeType;
+  strokeType: StrokeType;
+  /** The confidence the app would show, i.e. after calibration. */
+  confidence: number;
+  rawConfidence: number;
+  sirirajMargin: number;
+  predictedEligible: boolean;
+  expectedEligible?: boolean;
+};
+
+export type ConfusionMatrix = Record<GroundTruthStrokeType, Record<StrokeType, number>>;
+
+export type CalibrationBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+};
+
+export type ValidationReport = {
+  cases: number;
+  confusionMatrix: ConfusionMatrix;
+  accuracy: number;
+  /** Hemorrhage is the positive class: missing one and giving a thrombolytic is the harm to avoid. */
+  sensitivity: number;
+  specificity: number;
+  uncertainRate: number;
+  calibration: {
+    bins: CalibrationBin[];
+    expectedCalibrationError: number;
+    brierScore: number;
+  };
+  eligibility: {
+    cases: number;
+    /** Predicted eligible when thrombolysis should not have been offered. */
+    falsePositives: number;
+    falseNegatives: number;
+    falsePositiveRate: number;
+    falseNegativeRate: number;
+    errorRate: number;
+  };
+};
+
+export const CALIBRATION_BINS = 10;
+
+const STROKE_TYPES: StrokeType[] = ['Ischemic', 'Hemorrhagic', 'Uncertain'];
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? NaN : numerator / denominator);
+
+const isCorrect = (outcome: CaseOutcome) => outcome.strokeType === outcome.label;
+
+export function buildConfusionMatrix(outcomes: CaseOutcome[]): ConfusionMatrix {
+  const row = () => Object.fromEntries(STROKE_TYPES.map((type) => [type, 0])) as Record<StrokeType, number>;
+  const matrix: ConfusionMatrix = { Ischemic: row(), Hemorrhagic: row() };
+  for (const outcome of outcomes) {
+    matrix[outcome.label][outcome.strokeType]++;
+  }
+  return matrix;
+}
+
+/** Reliability of the stated confidence: how often predictions made with a given confidence are correct. */
+export function calibrationBins(outcomes: CaseOutcome[], binCount = CALIBRATION_BINS): CalibrationBin[] {
+  return Array.from({ length: binCount }, (_, index) => {
+    const lower = index / binCount;
+    const upper = (index + 1) / binCount;
+    const inBin = outcomes.filter(
+      ({ confidence }) => confidence >= lower && (confidence < upper || (index === binCount - 1 && confidence <= upper))
+    );
+    return {
+      lower,
+      upper,
+      count: inBin.length,
+      meanConfidence: ratio(inBin.reduce((sum, outcome) => sum + outcome.confidence, 0), inBin.length),
+      accuracy: ratio(inBin.filter(isCorrect).length, inBin.length),
+    };
+  });
+}
+
+/**
+ * Summarises a validation run. Uncertain predictions count as neither a detected hemorrhage nor a
+ * correctly ruled-out one, so a model cannot improve its sensitivity or specificity by abstaining.
+ */
+export function computeValidationReport(outcomes: CaseOutcome[]): ValidationReport {
+  const confusionMatrix = buildConfusionMatrix(outcomes);
+  const hemorrhagic = Object.values(confusionMatrix.Hemorrhagic).reduce((sum, count) => sum + count, 0);
+  const ischemic = Object.values(confusionMatrix.Ischemic).reduce((sum, count) => sum + count, 0);
+
+  const bins = calibrationBins(outcomes);
+  const labelledEligibility = outcomes.filter((outcome) => outcome.expectedEligible !== undefined);
+  const falsePositives = labelledEligibility.filter((o) => o.predictedEligible && !o.expectedEligible).length;
+  const falseNegatives = labelledEligibility.filter((o) => !o.predictedEligible && o.expectedEligible).length;
+  const trulyEligible = labelledEligibility.filter((o) => o.expectedEligible).length;
+
+  return {
+    cases: outcomes.length,
+    confusionMatrix,
+    accuracy: ratio(outcomes.filter(isCorrect).length, outcomes.length),
+    sensitivity: ratio(confusionMatrix.Hemorrhagic.Hemorrhagic, hemorrhagic),
+    specificity: ratio(confusionMatrix.Ischemic.Ischemic, ischemic),
+    uncertainRate: ratio(outcomes.filter((outcome) => outcome.strokeType === 'Uncertain').length, outcomes.length),
+    calibration: {
+      bins,
+      expectedCalibrationError: ratio(
+        bins
+          .filter((bin) => bin.count > 0)
+          .reduce((sum, bin) => sum + bin.count * Math.abs(bin.accuracy - bin.meanConfidence), 0),
+        outcomes.length
+      ),
+      brierScore: ratio(
+        outcomes.reduce((sum, outcome) => sum + (outcome.confidence - Number(isCorrect(outcome))) ** 2, 0),
+        outcomes.length
+      ),
+    },
+    eligibility: {
+      cases: labelledEligibility.length,
+      falsePositives,
+      falseNegatives,
+      falsePositiveRate: ratio(falsePositives, labelledEligibility.length - trulyEligible),
+      falseNegativeRate: ratio(falseNegatives, trulyEligible),
+      errorRate: ratio(falsePositives + falseNegatives, labelledEligibility.length),
+    },
+  };
+}
+
+const percent = (value: number) => (Number.isNaN(value) ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+const decimal = (value: number) => (Number.isNaN(value) ? 'n/a' : value.toFixed(3));
+
+/** Renders a report as plain text for the terminal. */
+export function formatValidationReport(report: ValidationReport): string {
+  const { confusionMatrix, calibration, eligibility } = report;
+  const pad = (value: string | number, width = 12) => String(value).padStart(width);
+
+  return [
+    `Cases: ${report.cases}`,
+    '',
+    'Confusion matrix (rows: actual, columns: predicted)',
+    `${pad('')}${STROKE_TYPES.map((type) => pad(type)).join('')}`,
+    ...(['Ischemic', 'Hemorrhagic'] as const).map(
+      (label) => `${pad(label)}${STROKE_TYPES.map((type) => pad(confusionMatrix[label][type])).join('')}`
+    ),
+    '',
+    `Accuracy:                      ${percent(report.accuracy)}`,
+    `Sensitivity (hemorrhage):      ${percent(report.sensitivity)}`,
+    `Specificity (hemorrhage):      ${percent(report.specificity)}`,
+    `Uncertain predictions:         ${percent(report.uncertainRate)}`,
+    '',
+    'Calibration',
+    `${pad('Confidence')}${pad('Cases')}${pad('Mean conf.')}${pad('Accuracy')}`,
+    ...calibration.bins
+      .filter((bin) => bin.count > 0)
+      .map(
+        (bin) =>
+          `${pad(`${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`)}${pad(bin.count)}${pad(
+            decimal(bin.meanConfidence)
+          )}${pad(percent(bin.accuracy))}`
+      ),
+    `Expected calibration error:    ${decimal(calibration.expectedCalibrationError)}`,
+    `Brier score:                   ${decimal(calibration.brierScore)}`,
+    '',
+    `Eligibility (${eligibility.cases} labelled cases)`,
+    `False positives (unsafe):      ${eligibility.falsePositives} (${percent(eligibility.falsePositiveRate)})`,
+    `False negatives (missed):      ${eligibility.falseNegatives} (${percent(eligibility.falseNegativeRate)})`,
+    `Error rate:                    ${percent(eligibility.errorRate)}`,
+  ].join('\n');
+}
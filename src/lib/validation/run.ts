@@ -0,0 +1,78 @@
+import { predictStrokeType } from '@/ai/flows/predict-stroke-type';
+import { evaluateTenecteplaseEligibility, type StrokeType } from '@/lib/eligibility';
+import { computeSiriraj } from '@/lib/scores/siriraj';
+import { predictHemorrhageProbability } from '@/lib/offline/classifier';
+import type { LabelledCase } from '@/lib/validation/dataset';
+import type { CaseOutcome } from '@/lib/validation/metrics';
+
+export type ValidationPath = 'flow' | 'siriraj';
+
+type Prediction = Pick<
+  CaseOutcome,
+  'strokeType' | 'confidence' | 'rawConfidence' | 'sirirajMargin' | 'predictedEligible'
+>;
+
+const confidenceFor = (strokeType: StrokeType, hemorrhageProbability: number) =>
+  strokeType === 'Hemorrhagic'
+    ? hemorrhageProbability
+    : strokeType === 'Ischemic'
+    ? 1 - hemorrhageProbability
+    : Math.max(hemorrhageProbability, 1 - hemorrhageProbability);
+
+export const VALIDATION_PATHS: Record<ValidationPath, (input: LabelledCase['input']) => Promise<Prediction>> = {
+  /** The full flow, with whichever model is configured. */
+  flow: async (input) => {
+    const result = await predictStrokeType(input);
+    return {
+      strokeType: result.strokeType,
+      confidence: result.confidence,
+      rawConfidence: result.rawConfidence,
+      sirirajMargin: result.siriraj ? Math.abs(result.siriraj.score) : 0,
+      predictedEligible: result.tenecteplaseEligible,
+    };
+  },
+  /** The Siriraj Stroke Score alone, with its logistic form as the confidence. */
+  siriraj: async (input) => {
+    const { score, interpretation } = computeSiriraj(input);
+    const confidence = confidenceFor(interpretation, predictHemorrhageProbability(input));
+    return {
+      strokeType: interpretation,
+      confidence,
+      rawConfidence: confidence,
+      sirirajMargin: Math.abs(score),
+      predictedEligible: evaluateTenecteplaseEligibility(input, interpretation).eligible,
+    };
+  },
+};
+
+export type ValidationRun = {
+  outcomes: CaseOutcome[];
+  failures: Array<{ id: string; error: string }>;
+};
+
+/** Runs every case through a path in turn. Cases the path rejects are reported, not scored. */
+export async function runValidation(
+  cases: LabelledCase[],
+  path: ValidationPath,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ValidationRun> {
+  const predict = VALIDATION_PATHS[path];
+  const run: ValidationRun = { outcomes: [], failures: [] };
+
+  for (const [index, labelledCase] of cases.entries()) {
+    try {
+      const prediction = await predict(labelledCase.input);
+      run.outcomes.push({
+        id: labelledCase.id,
+        label: labelledCase.label,
+        expectedEligible: labelledCase.eligible,
+        ...prediction,
+      });
+    } catch (error) {
+      run.failures.push({ id: labelledCase.id, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(index + 1, cases.length);
+  }
+
+  return run;
+}
@@ -0,0 +1,37 @@
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
+import { EMPTY_RACE } from '@/lib/scores/race';
+
+/**
+ * An alert patient an hour from onset who meets every thrombolysis criterion. Tests spread the
+ * findings they are about over it, so a new input field is only ever added here.
+ */
+export const baseInput: PredictStrokeTypeInput = {
+  timeSinceOnset: 60,
+  lastKnownWell: new Date(Date.now() - 60 * 60000).toISOString(),
+  onsetUnknown: false,
+  faceDroop: true,
+  speechSlurred: true,
+  armWeakness: 'Left',
+  race: EMPTY_RACE,
+  systolicBloodPressure: 160,
+  historyHypertension: false,
+  historyDiabetes: false,
+  historySmoking: false,
+  levelOfConsciousness: 'Conscious',
+  vomiting: false,
+  headache: false,
+  diastolicBloodPressure: 90,
+  anticoagulantUse: false,
+  recentSurgery: false,
+  priorIntracranialHemorrhage: false,
+  recentStrokeOrHeadTrauma: false,
+  plateletCount: 250,
+  bloodGlucose: 120,
+  inr: 1,
+  lossOfConsciousnessAtOnset: false,
+  neckStiffness: false,
+  bilateralExtensorPlantars: false,
+  historyAnginaOrClaudication: false,
+  previousStrokeOrTia: false,
+  heartDisease: false,
+};
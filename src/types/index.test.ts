@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { symptomSchema } from '@/types';
+import { EMPTY_RACE } from '@/lib/scores/race';
+
+/** The values the form submits untouched, as strings where the inputs are text boxes. */
+const formValues = {
+  onsetUnknown: true,
+  armWeakness: 'None',
+  race: EMPTY_RACE,
+  levelOfConsciousness: 'Conscious',
+  diastolicBloodPressure: '90',
+  systolicBloodPressure: '',
+  plateletCount: '',
+  bloodGlucose: '',
+  inr: '',
+};
+
+const errorsFor = (values: Record<string, unknown>) => {
+  const result = symptomSchema.safeParse(values);
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe('symptomSchema', () => {
+  it('coerces numeric strings to numbers', () => {
+    const parsed = symptomSchema.parse({
+      ...formValues,
+      systolicBloodPressure: '150',
+      plateletCount: '220',
+      bloodGlucose: '110',
+      inr: '1.1',
+    });
+
+    expect(parsed).toMatchObject({
+      diastolicBloodPressure: 90,
+      systolicBloodPressure: 150,
+      plateletCount: 220,
+      bloodGlucose: 110,
+      inr: 1.1,
+    });
+  });
+
+  it('keeps blank optional numbers blank rather than coercing them to 0', () => {
+    const parsed = symptomSchema.parse(formValues);
+
+    expect(parsed).toMatchObject({ systolicBloodPressure: '', plateletCount: '', bloodGlucose: '', inr: '' });
+    expect(symptomSchema.parse({ ...formValues, inr: undefined }).inr).toBeUndefined();
+    expect(symptomSchema.parse({ ...formValues, plateletCount: '0' }).plateletCount).toBe(0);
+  });
+
+  it('defaults unanswered yes/no findings to false', () => {
+    const parsed = symptomSchema.parse(formValues);
+
+    expect(parsed.faceDroop).toBe(false);
+    expect(parsed.anticoagulantUse).toBe(false);
+    expect(parsed.historyAnginaOrClaudication).toBe(false);
+  });
+
+  it('rejects text and negative values in numeric fields', () => {
+    expect(errorsFor({ ...formValues, diastolicBloodPressure: 'abc' }).diastolicBloodPressure).toEqual([
+      'Please enter a valid number.',
+    ]);
+    expect(errorsFor({ ...formValues, diastolicBloodPressure: '-5' }).diastolicBloodPressure).toEqual([
+      'Diastolic BP must be a positive number.',
+    ]);
+    expect(errorsFor({ ...formValues, inr: 'abc' }).inr).toEqual(['Please enter a valid number.']);
+    expect(errorsFor({ ...formValues, plateletCount: '-5' }).plateletCount).toEqual([
+      'Platelet count must be a positive number.',
+    ]);
+  });
+
+  it('requires a last known well time unless the onset is unknown', () => {
+    const result = symptomSchema.safeParse({ ...formValues, onsetUnknown: false });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.flatten().fieldErrors.lastKnownWell).toEqual([
+      'Please enter the last known well time, or mark the onset as unknown.',
+    ]);
+    expect(symptomSchema.safeParse({ ...formValues, onsetUnknown: false, lastKnownWell: new Date(Date.now() - 60000) }).success).toBe(true);
+  });
+
+  it('rejects a last known well time in the future', () => {
+    expect(errorsFor({ ...formValues, lastKnownWell: new Date(Date.now() + 3600000) }).lastKnownWell).toEqual([
+      'Last known well cannot be in the future.',
+    ]);
+  });
+});
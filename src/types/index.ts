@@ -1,8 +1,32 @@
 import { z } from 'zod';
+import type { EligibilityCriterion } from '@/lib/eligibility';
+import type { SirirajResult } from '@/lib/scores/siriraj';
+import type { GuysHospitalResult } from '@/lib/scores/guys-hospital';
+import { nihssSchema } from '@/lib/scores/nihss';
+import { raceSchema } from '@/lib/scores/race';
+import type { Milestones } from '@/lib/milestones';
+import type { GuardrailWarning } from '@/lib/guardrails';
+import type { ActionPlan } from '@/lib/actions';
+import type { ThrombolyticDose } from '@/lib/dosing';
+import type { BloodPressureReading } from '@/lib/blood-pressure';
+import type { Observation } from '@/lib/observations';
+import type { ReferralDetails } from '@/lib/referral';
+import type { PredictStrokeTypeInput } from '@/ai/flows/predict-stroke-type';
 
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png"];
 
+/**
+ * A number field that may be left blank. The blank literal is matched first: coercing it would turn a
+ * value that was never measured into 0.
+ */
+const optionalNumber = (negativeMessage: string) =>
+  z
+    .union([z.literal(''), z.coerce.number().min(0, negativeMessage)], {
+      errorMap: () => ({ message: 'Please enter a valid number.' }),
+    })
+    .optional();
+
 export const symptomSchema = z.object({
   ctScanImage: z
     .any()
@@ -11,19 +35,19 @@ export const symptomSchema = z.object({
       (file) => !file || ACCEPTED_IMAGE_TYPES.includes(file?.type),
       "Only .jpg, .jpeg, and .png formats are supported."
     ).optional(),
-  timeSinceOnset: z.coerce
-    .number({ invalid_type_error: 'Please enter a valid number.' })
-    .min(0, 'Time must be a positive number.'),
+  lastKnownWell: z
+    .date({ invalid_type_error: 'Please select a valid date and time.' })
+    .refine((date) => date.getTime() <= Date.now(), 'Last known well cannot be in the future.')
+    .optional(),
+  onsetUnknown: z.boolean().default(false),
   faceDroop: z.boolean().default(false),
   speechSlurred: z.boolean().default(false),
   armWeakness: z.enum(['None', 'Left', 'Right', 'Both'], {
     required_error: 'You need to select an arm weakness option.',
   }),
-  systolicBloodPressure: z.coerce
-    .number({ invalid_type_error: 'Please enter a valid number.' })
-    .min(0, 'BP must be a positive number.')
-    .optional()
-    .or(z.literal('')),
+  systolicBloodPressure: optionalNumber('BP must be a positive number.'),
+  nihss: nihssSchema.optional(),
+  race: raceSchema,
   historyHypertension: z.boolean().default(false),
   historyDiabetes: z.boolean().default(false),
   historySmoking: z.boolean().default(false),
@@ -35,6 +59,22 @@ export const symptomSchema = z.object({
   diastolicBloodPressure: z.coerce
     .number({ invalid_type_error: 'Please enter a valid number.' })
     .min(0, 'Diastolic BP must be a positive number.'),
+  lossOfConsciousnessAtOnset: z.boolean().default(false),
+  neckStiffness: z.boolean().default(false),
+  bilateralExtensorPlantars: z.boolean().default(false),
+  historyAnginaOrClaudication: z.boolean().default(false),
+  previousStrokeOrTia: z.boolean().default(false),
+  heartDisease: z.boolean().default(false),
+  anticoagulantUse: z.boolean().default(false),
+  recentSurgery: z.boolean().default(false),
+  priorIntracranialHemorrhage: z.boolean().default(false),
+  recentStrokeOrHeadTrauma: z.boolean().default(false),
+  plateletCount: optionalNumber('Platelet count must be a positive number.'),
+  bloodGlucose: optionalNumber('Glucose must be a positive number.'),
+  inr: optionalNumber('INR must be a positive number.'),
+}).refine((data) => data.onsetUnknown || data.lastKnownWell, {
+  message: 'Please enter the last known well time, or mark the onset as unknown.',
+  path: ['lastKnownWell'],
 });
 
 export type SymptomFormValues = z.infer<typeof symptomSchema> & {
@@ -43,7 +83,55 @@ export type SymptomFormValues = z.infer<typeof symptomSchema> & {
 
 export type PredictionResult = {
   strokeType: 'Ischemic' | 'Hemorrhagic' | 'Uncertain';
+  /** Calibrated, except on cases saved before calibration was introduced. */
   confidence: number;
+  rawConfidence?: number;
+  calibrationVersion?: string;
+  /** Absent on cases saved before the guardrails were introduced. */
+  warnings?: GuardrailWarning[];
   tenecteplaseEligible: boolean;
+  eligibilityCriteria: EligibilityCriterion[];
+  siriraj?: SirirajResult;
+  guysHospital?: GuysHospitalResult;
+  clinicalScoresAgree?: boolean;
+  nihssTotal?: number;
+  raceScore: number;
+  lvoSuspected: boolean;
+  lastKnownWell?: string;
+  treatmentWindowEndsAt?: string;
+  /** Absent on cases saved before action plans were introduced, which only have the `action` text. */
+  actionPlan?: ActionPlan;
   action: string;
+  /** The site protocol the result followed. Absent on cases saved before it was recorded. */
+  protocolId?: string;
+  /** Set when the result was produced on-device without the AI service. */
+  offline?: boolean;
+};
+
+/** Form values as persisted: the image is stored separately and dates become ISO strings. */
+export type StoredSymptomValues = Omit<SymptomFormValues, 'ctScanImage' | 'lastKnownWell'> & {
+  lastKnownWell?: string;
+};
+
+export type CaseRecord = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  input: StoredSymptomValues;
+  predictionInput: PredictStrokeTypeInput;
+  result: PredictionResult;
+  /** The on-device result this case had before it was re-analysed online. */
+  offlineResult?: PredictionResult;
+  /** True while an offline result is waiting to be re-analysed online. */
+  pendingSync?: boolean;
+  image?: string;
+  milestones: Milestones;
+  /** The thrombolytic agent chosen and the dose last calculated for it. */
+  dosing?: ThrombolyticDose;
+  /** Blood pressure readings, starting with the one taken at assessment. Absent on older cases. */
+  bloodPressureReadings?: BloodPressureReading[];
+  /** Serial vital signs and neurological scores after the assessment. Absent on older cases. */
+  observations?: Observation[];
+  /** The patient and clinician details entered when a referral letter was last printed. */
+  referral?: ReferralDetails;
 };
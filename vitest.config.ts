@@ -0,0 +1,15 @@
+import {fileURLToPath} from 'url';
+import {defineConfig} from 'vitest/config';
+
+export default defineConfig({
+  esbuild: {jsx: 'automatic'},
+  resolve: {
+    alias: {'@': fileURLToPath(new URL('./src', import.meta.url))},
+  },
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    setupFiles: ['./vitest.setup.ts'],
+    // Flow tests run against the deterministic mock model, never a real provider.
+    env: {MODEL: 'mock/rules'},
+  },
+});
@@ -0,0 +1,10 @@
+import '@testing-library/jest-dom/vitest';
+
+// jsdom has no layout, so charts only need ResizeObserver to exist.
+if (typeof window !== 'undefined' && !window.ResizeObserver) {
+  window.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+}